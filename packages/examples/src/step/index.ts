@@ -1,4 +1,7 @@
 import { createExecutor } from '@amwpcn/step';
+import { writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { cleanup, importDocument, notification } from './custom-steps';
 
 async function main() {
@@ -50,6 +53,12 @@ async function main() {
   }));
 
   console.log(JSON.stringify({ nodes, edges }, undefined, 2));
+
+  // Built-in exports, no mapping required
+  console.log(executor.exportGraph('mermaid'));
+  const file = join(tmpdir(), 'execution-graph.html');
+  writeFileSync(file, executor.exportGraph('html'));
+  console.log(`Graph written to ${file}`);
 }
 
 main();
@@ -0,0 +1,120 @@
+import type { ContextConflict } from './merge';
+import type { StepStage } from './step';
+import type { ExecutionResult, StepError } from './step-executor';
+
+/**
+ * Thrown by `StepExecutor.start()` when the execution failed and the `rejectOnError` option is set.
+ * Contains all the errors captured during the execution and the result of the execution.
+ */
+export class ExecutionError extends Error {
+  readonly errors: StepError[];
+
+  constructor(readonly result: ExecutionResult<any>) {
+    super(
+      `Execution failed with ${result.errors.length} error(s): ${result.errors
+        .map((e) => `"${e.stepName}" (${e.stage})`)
+        .join(', ')}`,
+    );
+    this.name = 'ExecutionError';
+    this.errors = result.errors;
+  }
+}
+
+/**
+ * Thrown when a stage of a step does not finish within its timeout,
+ * or when the deadline of the whole execution is reached while the stage is running.
+ */
+export class StepTimeoutError extends Error {
+  constructor(
+    readonly stepName: string,
+    readonly stage: StepStage,
+    readonly timeout: number,
+    readonly reason: 'stage' | 'deadline' = 'stage',
+  ) {
+    super(
+      reason === 'deadline'
+        ? `Execution deadline reached while step "${stepName}" was in ${stage} stage.`
+        : `Step "${stepName}" did not finish ${stage} stage within ${timeout}ms.`,
+    );
+    this.name = 'StepTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a loop reaches its maximum number of iterations before its exit condition is met.
+ */
+export class LoopLimitError extends Error {
+  constructor(
+    readonly stepName: string,
+    readonly maxIterations: number,
+  ) {
+    super(
+      `Loop "${stepName}" did not meet its exit condition within ${maxIterations} iterations.`,
+    );
+    this.name = 'LoopLimitError';
+  }
+}
+
+/**
+ * Thrown by a forEach step in `failFast` mode when the steps of one of its items fail.
+ * The error of the item is the `cause`, and it is reported for the failing step of the item.
+ */
+export class ForEachItemError extends Error {
+  constructor(
+    readonly stepName: string,
+    readonly index: number,
+    readonly cause: unknown,
+  ) {
+    super(
+      `Item ${index} of forEach step "${stepName}" failed: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = 'ForEachItemError';
+  }
+}
+
+/**
+ * Thrown when the context does not pass the `validate` option of the StepExecutor,
+ * either initially or after an update. The error of the validator is the `cause`.
+ */
+export class ContextValidationError extends Error {
+  constructor(
+    readonly cause: unknown,
+    readonly stepName?: string,
+  ) {
+    super(
+      `Invalid context${stepName ? ` after an update of step "${stepName}"` : ''}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = 'ContextValidationError';
+  }
+}
+
+/**
+ * Thrown when a step updates keys of the context that are not declared in its `writes`.
+ */
+export class UndeclaredWriteError extends Error {
+  constructor(
+    readonly stepName: string,
+    readonly keys: string[],
+  ) {
+    super(
+      `Step "${stepName}" updated undeclared context keys: ${keys.join(', ')}.`,
+    );
+    this.name = 'UndeclaredWriteError';
+  }
+}
+
+/**
+ * Thrown when a step writes a context key with the `error` merge strategy based on a stale read.
+ */
+export class ContextConflictError extends Error {
+  constructor(readonly conflict: ContextConflict) {
+    super(
+      `Step "${conflict.stepName}" wrote context key "${conflict.key}" based on a stale read.`,
+    );
+    this.name = 'ContextConflictError';
+  }
+}
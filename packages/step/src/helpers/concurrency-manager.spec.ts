@@ -0,0 +1,167 @@
+import { ConcurrencyManager } from './concurrency-manager';
+
+describe('ConcurrencyManager', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const settled = async (promise: Promise<void>) => {
+    let done = false;
+    promise.then(() => (done = true));
+    await flush();
+    return done;
+  };
+
+  it('should wait for a slot when the limit is reached', async () => {
+    const manager = new ConcurrencyManager({ limit: 1, timeout: 0 });
+    await manager.acquire();
+
+    const waiting = manager.acquire();
+    expect(await settled(waiting)).toBe(false);
+
+    manager.release();
+    expect(await settled(waiting)).toBe(true);
+  });
+
+  it('should wait for the units of a pool', async () => {
+    const manager = new ConcurrencyManager({
+      limit: 10,
+      timeout: 0,
+      pools: { db: 3 },
+    });
+    await manager.acquire({ pools: { db: 2 } });
+
+    const waiting = manager.acquire({ pools: { db: 2 } });
+    expect(await settled(waiting)).toBe(false);
+
+    manager.release({ pools: { db: 2 } });
+    expect(await settled(waiting)).toBe(true);
+  });
+
+  it('should not let smaller holders starve a waiter needing more units', async () => {
+    const manager = new ConcurrencyManager({
+      limit: 10,
+      timeout: 0,
+      aging: 10,
+      pools: { db: 2 },
+    });
+    await manager.acquire({ pools: { db: 1 } });
+
+    const large = manager.acquire({ pools: { db: 2 } });
+    const small = manager.acquire({ pools: { db: 1 } });
+    expect(await settled(large)).toBe(false);
+    expect(await settled(small)).toBe(false);
+
+    manager.release({ pools: { db: 1 } });
+    expect(await settled(large)).toBe(true);
+    expect(await settled(small)).toBe(false);
+
+    manager.release({ pools: { db: 2 } });
+    expect(await settled(small)).toBe(true);
+  });
+
+  it('should let at most keyLimit holders hold the same key', async () => {
+    const manager = new ConcurrencyManager({
+      limit: 10,
+      timeout: 0,
+      keyLimit: 2,
+    });
+    await manager.acquire({ keys: ['document:1'] });
+    await manager.acquire({ keys: ['document:1'] });
+
+    const waiting = manager.acquire({ keys: ['document:1'] });
+    const other = manager.acquire({ keys: ['document:2'] });
+    expect(await settled(waiting)).toBe(false);
+    expect(await settled(other)).toBe(true);
+
+    manager.release({ keys: ['document:1'] });
+    expect(await settled(waiting)).toBe(true);
+  });
+
+  it('should acquire everything at once or nothing', async () => {
+    const manager = new ConcurrencyManager({
+      limit: 10,
+      timeout: 0,
+      pools: { db: 1, http: 1 },
+    });
+    await manager.acquire({ pools: { db: 1 } });
+
+    const waiting = manager.acquire({ pools: { db: 1, http: 1 } });
+    expect(await settled(waiting)).toBe(false);
+
+    // The waiter does not hold the http unit, a holder ranked before it can take it
+    const http = manager.acquire({ pools: { http: 1 } }, -1);
+    expect(await settled(http)).toBe(true);
+
+    manager.release({ pools: { http: 1 } });
+    manager.release({ pools: { db: 1 } });
+    expect(await settled(waiting)).toBe(true);
+  });
+
+  it('should grant the waiters with lower priority values first', async () => {
+    const manager = new ConcurrencyManager({ limit: 1, timeout: 0 });
+    await manager.acquire();
+
+    const granted: string[] = [];
+    manager.acquire(undefined, 5).then(() => granted.push('low'));
+    manager.acquire(undefined, 0).then(() => granted.push('high'));
+    manager.acquire(undefined, 0).then(() => granted.push('high2'));
+
+    manager.release();
+    await flush();
+    manager.release();
+    await flush();
+    manager.release();
+    await flush();
+
+    expect(granted).toEqual(['high', 'high2', 'low']);
+  });
+
+  it('should let the waiters age so they are not starved', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const manager = new ConcurrencyManager({
+      limit: 1,
+      timeout: 0,
+      aging: 100,
+    });
+    await manager.acquire();
+
+    const granted: string[] = [];
+    manager.acquire(undefined, 3).then(() => granted.push('old'));
+    now.mockReturnValue(500);
+    manager.acquire(undefined, 0).then(() => granted.push('new'));
+
+    // The old waiter waited 5 levels worth, it is ahead of the new one by 2
+    manager.release();
+    await flush();
+
+    expect(granted).toEqual(['old']);
+  });
+
+  it('should remove the timed out waiters from the queue', async () => {
+    const manager = new ConcurrencyManager({ limit: 1, timeout: 10 });
+    await manager.acquire();
+
+    await expect(manager.acquire()).rejects.toThrow(
+      'Timeout while acquiring concurrency slot.',
+    );
+
+    // The slot released is not given to the timed out waiter
+    manager.release();
+    expect(await settled(manager.acquire())).toBe(true);
+  });
+
+  it('should throw for an unknown pool or more units than a pool has', async () => {
+    const manager = new ConcurrencyManager({ pools: { db: 2 } });
+
+    await expect(manager.acquire({ pools: { cache: 1 } })).rejects.toThrow(
+      'Unknown resource pool "cache".',
+    );
+    await expect(manager.acquire({ pools: { db: 3 } })).rejects.toThrow(
+      'Resource pool "db" has 2 units, 3 can never be acquired.',
+    );
+  });
+});
@@ -1,56 +1,226 @@
 export interface ConcurrencyManagerOptions {
   limit?: number;
   timeout?: number;
+  /**
+   * Named resource pools and the units each of them has, e.g. `{ db: 5, http: 20 }`.
+   */
+  pools?: Record<string, number>;
+  /**
+   * Maximum number of concurrent holders of the same key. Default is 1.
+   */
+  keyLimit?: number;
+  /**
+   * Milliseconds of waiting after which a holder is granted as if its priority was one lower,
+   * so the holders with high priority values are not starved. Default is 1000, 0 disables aging.
+   */
+  aging?: number;
+}
+
+/**
+ * What a holder needs besides its slot.
+ */
+export interface ResourceRequest {
+  /**
+   * Units needed from each named pool.
+   */
+  pools?: Record<string, number>;
+  /**
+   * Keys, e.g. `document:42`, of which at most `keyLimit` holders may run at the same time.
+   */
+  keys?: string[];
+}
+
+interface Waiter {
+  request?: ResourceRequest;
+  priority: number;
+  since: number;
+  grant: () => void;
+}
+
+// Pool units and keys by their name
+interface Usage {
+  units: Map<string, number>;
+  keys: Map<string, number>;
 }
 
 export class ConcurrencyManager {
   private _currentExecutions: number = 0;
-  private _queue: (() => void)[] = [];
+  private _queue: Waiter[] = [];
+  private _usedUnits: Map<string, number> = new Map();
+  private _heldKeys: Map<string, number> = new Map();
 
   private readonly _DEFAULT_TIMEOUT = 30_000; // 30 seconds
   private readonly _DEFAULT_LIMIT = 4;
+  private readonly _DEFAULT_KEY_LIMIT = 1;
+  private readonly _DEFAULT_AGING = 1_000; // 1 second
 
   private readonly _limit: number;
   private readonly _timeout: number;
+  private readonly _pools: Record<string, number>;
+  private readonly _keyLimit: number;
+  private readonly _aging: number;
 
   constructor(options?: ConcurrencyManagerOptions) {
     this._limit = options?.limit ?? this._DEFAULT_LIMIT;
     this._timeout = options?.timeout ?? this._DEFAULT_TIMEOUT;
+    this._pools = options?.pools ?? {};
+    this._keyLimit = options?.keyLimit ?? this._DEFAULT_KEY_LIMIT;
+    this._aging = options?.aging ?? this._DEFAULT_AGING;
   }
 
-  async acquire(): Promise<void> {
-    if (this._currentExecutions < this._limit) {
-      this._currentExecutions++;
-      return Promise.resolve();
+  /**
+   * Acquires a slot and the requested resources. Everything is acquired at once, only when all of it
+   * is available, so holders never wait for each other while holding a part of their resources.
+   *
+   * Waiting holders are granted by their priority, lower values first and the ones waiting longer
+   * first within the same priority. A holder waiting for pool units or keys reserves them, so the
+   * holders ranked after it can not take them, even if they would fit right away.
+   *
+   * @param request - (Optional) The resources needed besides the slot.
+   * @param priority - (Optional) The priority of the holder. Default is 0.
+   * @throws Error if a requested pool does not exist or does not have enough units at all.
+   */
+  async acquire(
+    request?: ResourceRequest,
+    priority: number = 0,
+  ): Promise<void> {
+    for (const [pool, units] of Object.entries(request?.pools ?? {})) {
+      if (!(pool in this._pools)) {
+        throw new Error(`Unknown resource pool "${pool}".`);
+      }
+      if (units > this._pools[pool]) {
+        throw new Error(
+          `Resource pool "${pool}" has ${this._pools[pool]} units, ${units} can never be acquired.`,
+        );
+      }
     }
 
     return new Promise((resolve, reject) => {
-      const timeoutId =
-        this._timeout > 0
-          ? setTimeout(() => {
-              reject(
-                new Error(`Timeout while acquiring concurrency slot.
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const waiter: Waiter = {
+        request,
+        priority,
+        since: Date.now(),
+        grant: () => {
+          clearTimeout(timeoutId);
+          resolve();
+        },
+      };
+
+      // Even a holder that fits right away goes through the queue, so it does not take
+      // what the waiters ranked before it are waiting for
+      this._queue.push(waiter);
+      this._grant();
+      if (!this._queue.includes(waiter) || this._timeout <= 0) {
+        return;
+      }
+
+      timeoutId = setTimeout(() => {
+        // A timed out holder gives up its place, so it is never granted a slot it does not use
+        this._queue.splice(this._queue.indexOf(waiter), 1);
+        this._grant();
+        reject(
+          new Error(`Timeout while acquiring concurrency slot.
                 If you think some steps require more time to execute,
                 try increasing default timeout which is at ${this._DEFAULT_TIMEOUT}.`),
-              );
-            }, this._timeout)
-          : null;
-
-      this._queue.push(() => {
-        if (timeoutId) clearTimeout(timeoutId);
-        resolve();
-      });
+        );
+      }, this._timeout);
     });
   }
 
-  release(): void {
+  /**
+   * Releases a slot and the resources acquired with it.
+   *
+   * @param request - (Optional) The same request the slot was acquired with.
+   */
+  release(request?: ResourceRequest): void {
     this._currentExecutions--;
-    if (this._queue.length > 0) {
-      const resolve = this._queue.shift();
-      if (resolve) {
-        this._currentExecutions++;
-        resolve();
+    for (const [pool, units] of Object.entries(request?.pools ?? {})) {
+      this._usedUnits.set(pool, (this._usedUnits.get(pool) ?? 0) - units);
+    }
+    for (const key of request?.keys ?? []) {
+      const held = (this._heldKeys.get(key) ?? 0) - 1;
+      if (held > 0) {
+        this._heldKeys.set(key, held);
+      } else {
+        this._heldKeys.delete(key);
       }
     }
+
+    this._grant();
+  }
+
+  /**
+   * Grants the waiters that fit, in the order of their rank. A waiter that does not fit reserves
+   * the pool units and keys it waits for, so the waiters ranked after it only get what is left,
+   * and the ones needing other resources are not blocked by it.
+   */
+  private _grant(): void {
+    const reserved: Usage = { units: new Map(), keys: new Map() };
+    for (const waiter of this._waiters()) {
+      if (this._isAvailable(waiter.request, reserved)) {
+        this._queue.splice(this._queue.indexOf(waiter), 1);
+        this._take(waiter.request);
+        waiter.grant();
+        continue;
+      }
+
+      for (const [pool, units] of Object.entries(waiter.request?.pools ?? {})) {
+        reserved.units.set(pool, (reserved.units.get(pool) ?? 0) + units);
+      }
+      for (const key of waiter.request?.keys ?? []) {
+        reserved.keys.set(key, (reserved.keys.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Returns the waiters in the order they are granted. The priority of a waiter decreases by one
+   * for each `aging` milliseconds it waited, and the sort keeps the arrival order of equal ones.
+   */
+  private _waiters(): Waiter[] {
+    const now = Date.now();
+    const rank = (waiter: Waiter) =>
+      this._aging > 0
+        ? waiter.priority - (now - waiter.since) / this._aging
+        : waiter.priority;
+
+    return [...this._queue].sort((a, b) => rank(a) - rank(b));
+  }
+
+  private _isAvailable(
+    request: ResourceRequest | undefined,
+    reserved: Usage,
+  ): boolean {
+    if (this._currentExecutions >= this._limit) {
+      return false;
+    }
+
+    const pools = Object.entries(request?.pools ?? {});
+    const keys = request?.keys ?? [];
+    return (
+      pools.every(
+        ([pool, units]) =>
+          (this._usedUnits.get(pool) ?? 0) +
+            (reserved.units.get(pool) ?? 0) +
+            units <=
+          this._pools[pool],
+      ) &&
+      keys.every(
+        (key) =>
+          (this._heldKeys.get(key) ?? 0) + (reserved.keys.get(key) ?? 0) <
+          this._keyLimit,
+      )
+    );
+  }
+
+  private _take(request?: ResourceRequest): void {
+    this._currentExecutions++;
+    for (const [pool, units] of Object.entries(request?.pools ?? {})) {
+      this._usedUnits.set(pool, (this._usedUnits.get(pool) ?? 0) + units);
+    }
+    for (const key of request?.keys ?? []) {
+      this._heldKeys.set(key, (this._heldKeys.get(key) ?? 0) + 1);
+    }
   }
 }
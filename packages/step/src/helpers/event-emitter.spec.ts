@@ -0,0 +1,65 @@
+import { EventEmitter } from './event-emitter';
+
+interface TestEvents {
+  foo: number;
+  bar: string;
+}
+
+describe('EventEmitter', () => {
+  it('should call the listeners of the emitted event with the payload', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const foo = jest.fn();
+    const bar = jest.fn();
+    emitter.on('foo', foo);
+    emitter.on('bar', bar);
+
+    emitter.emit('foo', 1);
+
+    expect(foo).toHaveBeenCalledWith(1);
+    expect(bar).not.toHaveBeenCalled();
+  });
+
+  it('should remove the listener with off or the returned function', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const first = jest.fn();
+    const second = jest.fn();
+    emitter.on('foo', first);
+    const off = emitter.on('foo', second);
+
+    emitter.off('foo', first);
+    off();
+    emitter.emit('foo', 1);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.hasListeners).toBe(false);
+  });
+
+  it('should call a once listener only one time', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = jest.fn();
+    emitter.once('foo', listener);
+
+    emitter.emit('foo', 1);
+    emitter.emit('foo', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('should not propagate errors thrown by listeners', () => {
+    const consoleErrorSpy = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = jest.fn();
+    emitter.on('foo', () => {
+      throw new Error();
+    });
+    emitter.on('foo', listener);
+
+    expect(() => emitter.emit('foo', 1)).not.toThrow();
+    expect(listener).toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,88 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * A minimal, typed event emitter.
+ * Errors thrown by listeners are logged and never propagated to the emitter.
+ *
+ * @template E - A map of event names to their payload types.
+ */
+export class EventEmitter<E extends object> {
+  private _listeners: Map<keyof E, Set<Listener<any>>> = new Map();
+
+  /**
+   * Check if there is at least one listener registered.
+   */
+  get hasListeners(): boolean {
+    return this._listeners.size > 0;
+  }
+
+  /**
+   * Registers a listener for the given event.
+   *
+   * @param event - The name of the event.
+   * @param listener - The function to be called with the event payload.
+   * @returns A function that removes the listener.
+   */
+  on<K extends keyof E>(event: K, listener: Listener<E[K]>): () => void {
+    const listeners = this._listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this._listeners.set(event, listeners);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Registers a listener that will be removed after the first call.
+   *
+   * @param event - The name of the event.
+   * @param listener - The function to be called with the event payload.
+   * @returns A function that removes the listener.
+   */
+  once<K extends keyof E>(event: K, listener: Listener<E[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+
+    return off;
+  }
+
+  /**
+   * Removes a previously registered listener.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof E>(event: K, listener: Listener<E[K]>): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this._listeners.delete(event);
+    }
+  }
+
+  /**
+   * Calls all the listeners of the given event with the payload.
+   *
+   * @param event - The name of the event.
+   * @param payload - The payload passed to the listeners.
+   */
+  emit<K extends keyof E>(event: K, payload: E[K]): void {
+    const listeners = this._listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error({ event, error });
+      }
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { GraphData } from './graph';
+import { toDot, toHtml, toMermaid } from './graph-export';
+
+const data: GraphData = {
+  nodes: [
+    { id: 'root', label: 'Root', duration: 12 },
+    { id: 'before', label: 'Before "1"', isError: true },
+    { id: 'after', label: 'After', isCancelled: true },
+  ],
+  edges: [
+    { from: 'root', to: 'before', queueOrder: 0 },
+    { from: 'before', to: 'root', isReturn: true },
+    { from: 'root', to: 'after', queueOrder: 1 },
+  ],
+};
+
+describe('toDot', () => {
+  it('should render the nodes with their state and duration', () => {
+    const dot = toDot(data);
+
+    expect(dot).toContain('"root" [label="Root\\n12 ms", fillcolor=white];');
+    expect(dot).toContain('"before" [label="Before \\"1\\"", fillcolor=pink];');
+    expect(dot).toContain('"after" [label="After", fillcolor=lightgrey];');
+  });
+
+  it('should render the queue orders and the returning edges', () => {
+    const dot = toDot(data);
+
+    expect(dot).toContain('"root" -> "before" [label="0"];');
+    expect(dot).toContain('"before" -> "root" [style=dashed];');
+    expect(dot).toContain('"root" -> "after" [label="1"];');
+  });
+});
+
+describe('toMermaid', () => {
+  it('should render a flowchart with generated node ids', () => {
+    expect(toMermaid(data)).toBe(
+      [
+        'flowchart TD',
+        '  n0["Root<br/>12 ms"]',
+        '  n1["Before #quot;1#quot;"]',
+        '  n2["After"]',
+        '  n0 -->|0| n1',
+        '  n1 -.-> n0',
+        '  n0 -->|1| n2',
+        '  classDef error fill:pink',
+        '  class n1 error',
+        '  classDef cancelled fill:lightgrey',
+        '  class n2 cancelled',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('toHtml', () => {
+  it('should render a standalone document with the graph embedded', () => {
+    const html = toHtml(data, { title: 'Import <1>' });
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Import &lt;1&gt;</title>');
+    expect(html).toContain('<svg');
+    expect(html).toContain('Before &quot;1&quot;');
+    expect(html).toContain('stroke-dasharray');
+    expect(html).not.toMatch(/<script[^>]+src=/);
+
+    const json = html.match(
+      /<script type="application\/json" id="graph-data">(.*)<\/script>/,
+    )?.[1];
+    expect(JSON.parse(json!)).toEqual(data);
+  });
+});
+
+describe('clusters', () => {
+  const nested: GraphData = {
+    nodes: [
+      { id: 'import', label: 'Import' },
+      { id: 'import/0', label: 'Parse', cluster: 'import' },
+    ],
+    edges: [{ from: 'import', to: 'import/0' }],
+  };
+
+  it('should render the nested nodes of a sub-workflow in a DOT cluster', () => {
+    const dot = toDot(nested);
+
+    expect(dot).toContain('subgraph "cluster_import" {');
+    expect(dot).toContain('    "import/0" [label="Parse", fillcolor=white];');
+  });
+
+  it('should render the nested nodes of a sub-workflow in a Mermaid subgraph', () => {
+    expect(toMermaid(nested)).toBe(
+      [
+        'flowchart TD',
+        '  n0["Import"]',
+        '  subgraph n0_sub ["Import"]',
+        '    n1["Parse"]',
+        '  end',
+        '  n0 --> n1',
+      ].join('\n'),
+    );
+  });
+
+  it('should draw a box around the nested nodes in HTML', () => {
+    expect(toHtml(nested)).toContain('<title>import</title></rect>');
+  });
+});
@@ -0,0 +1,379 @@
+import type { GraphData, GraphEdge, GraphNode } from './graph';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'html';
+
+export interface HtmlExportOptions {
+  /**
+   * Title of the HTML document. Default is `Step Execution Graph`.
+   */
+  title?: string;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 48;
+const H_GAP = 40;
+const V_GAP = 70;
+const PADDING = 20;
+
+const COLORS = {
+  error: 'pink',
+  cancelled: 'lightgrey',
+  skipped: 'lightyellow',
+  default: 'white',
+};
+
+/**
+ * Builds the text lines of a node: its label, its duration and the attempts of retried stages.
+ *
+ * @param node - The graph node.
+ * @returns The lines to display for the node.
+ */
+function nodeLines(node: GraphNode): string[] {
+  const lines = [node.label];
+  if (node.duration !== undefined) {
+    lines.push(`${node.duration} ms`);
+  }
+
+  const attempts = Object.entries(node.attempts ?? {});
+  if (attempts.length > 0) {
+    lines.push(attempts.map(([stage, n]) => `${stage} x${n}`).join(', '));
+  }
+
+  return lines;
+}
+
+function nodeColor(node: GraphNode): string {
+  if (node.isError) {
+    return COLORS.error;
+  }
+
+  if (node.isCancelled) {
+    return COLORS.cancelled;
+  }
+
+  return node.isSkipped ? COLORS.skipped : COLORS.default;
+}
+
+function edgeLabel(edge: GraphEdge): string | undefined {
+  const parts = [edge.queueOrder, edge.label].filter((p) => p !== undefined);
+  return parts.length ? parts.join(' ') : undefined;
+}
+
+/**
+ * Groups the nodes by the cluster they belong to. Nodes outside of any cluster are grouped under
+ * `undefined`.
+ *
+ * @param data - The graph data.
+ * @returns The nodes of each cluster by the id of the cluster.
+ */
+function clusters(data: GraphData): Map<string | undefined, GraphNode[]> {
+  const groups = new Map<string | undefined, GraphNode[]>();
+  for (const node of data.nodes) {
+    groups.set(node.cluster, [...(groups.get(node.cluster) ?? []), node]);
+  }
+
+  return groups;
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Converts the graph data to the Graphviz DOT language.
+ *
+ * @param data - The graph data.
+ * @returns The DOT source of the graph.
+ */
+export function toDot(data: GraphData): string {
+  const lines = ['digraph Steps {', '  node [shape=box, style=filled];'];
+  const groups = clusters(data);
+
+  const addNodes = (nodes: GraphNode[], indent: string) => {
+    for (const node of nodes) {
+      const label = nodeLines(node).map(escapeDot).join('\\n');
+      const style = node.isDynamic ? ', style="filled,dashed"' : '';
+      lines.push(
+        `${indent}"${escapeDot(node.id)}" [label="${label}", fillcolor=${nodeColor(node)}${style}];`,
+      );
+
+      // The nested nodes of a sub-workflow step follow the step in their own cluster
+      const nested = groups.get(node.id);
+      if (nested) {
+        lines.push(
+          `${indent}subgraph "cluster_${escapeDot(node.id)}" {`,
+          `${indent}  label="${escapeDot(node.label)}";`,
+          `${indent}  style=dashed;`,
+        );
+        addNodes(nested, `${indent}  `);
+        lines.push(`${indent}}`);
+      }
+    }
+  };
+  addNodes(groups.get(undefined) ?? [], '  ');
+
+  for (const edge of data.edges) {
+    const attributes: string[] = [];
+    const label = edgeLabel(edge);
+    if (label !== undefined) {
+      attributes.push(`label="${escapeDot(label)}"`);
+    }
+    if (edge.isReturn) {
+      attributes.push('style=dashed');
+    }
+
+    const suffix = attributes.length ? ` [${attributes.join(', ')}]` : '';
+    lines.push(
+      `  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}"${suffix};`,
+    );
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Converts the graph data to a Mermaid flowchart.
+ *
+ * @param data - The graph data.
+ * @returns The Mermaid source of the graph.
+ */
+export function toMermaid(data: GraphData): string {
+  // Step ids may contain characters Mermaid does not accept, hence the generated ids
+  const ids = new Map(data.nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ['flowchart TD'];
+  const groups = clusters(data);
+
+  const addNodes = (nodes: GraphNode[], indent: string) => {
+    for (const node of nodes) {
+      const label = nodeLines(node).map(escapeMermaid).join('<br/>');
+      lines.push(`${indent}${ids.get(node.id)}["${label}"]`);
+
+      const nested = groups.get(node.id);
+      if (nested) {
+        lines.push(
+          `${indent}subgraph ${ids.get(node.id)}_sub ["${escapeMermaid(node.label)}"]`,
+        );
+        addNodes(nested, `${indent}  `);
+        lines.push(`${indent}end`);
+      }
+    }
+  };
+  addNodes(groups.get(undefined) ?? [], '  ');
+
+  for (const edge of data.edges) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    if (!from || !to) {
+      continue;
+    }
+
+    const arrow = edge.isReturn ? '-.->' : '-->';
+    const label = edgeLabel(edge);
+    const text = label !== undefined ? `|${escapeMermaid(label)}|` : '';
+    lines.push(`  ${from} ${arrow}${text} ${to}`);
+  }
+
+  const errors = data.nodes.filter((n) => n.isError);
+  const cancelled = data.nodes.filter((n) => !n.isError && n.isCancelled);
+  if (errors.length) {
+    lines.push(`  classDef error fill:${COLORS.error}`);
+    lines.push(`  class ${errors.map((n) => ids.get(n.id)).join(',')} error`);
+  }
+  if (cancelled.length) {
+    lines.push(`  classDef cancelled fill:${COLORS.cancelled}`);
+    lines.push(
+      `  class ${cancelled.map((n) => ids.get(n.id)).join(',')} cancelled`,
+    );
+  }
+  const skipped = data.nodes.filter(
+    (n) => !n.isError && !n.isCancelled && n.isSkipped,
+  );
+  if (skipped.length) {
+    lines.push(`  classDef skipped fill:${COLORS.skipped}`);
+    lines.push(
+      `  class ${skipped.map((n) => ids.get(n.id)).join(',')} skipped`,
+    );
+  }
+  const dynamic = data.nodes.filter((n) => n.isDynamic);
+  if (dynamic.length) {
+    lines.push('  classDef dynamic stroke-dasharray:5 4');
+    lines.push(
+      `  class ${dynamic.map((n) => ids.get(n.id)).join(',')} dynamic`,
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Places the nodes in layers by their distance from the root nodes, ignoring the returning edges.
+ *
+ * @param data - The graph data.
+ * @returns The position of the top left corner of each node by its id.
+ */
+function layout(data: GraphData): Map<string, { x: number; y: number }> {
+  const targets = new Set(
+    data.edges.filter((e) => !e.isReturn).map((e) => e.to),
+  );
+  const depths = new Map<string, number>();
+  const queue = data.nodes.filter((n) => !targets.has(n.id)).map((n) => n.id);
+  queue.forEach((id) => depths.set(id, 0));
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const edge of data.edges) {
+      if (edge.isReturn || edge.from !== id || depths.has(edge.to)) {
+        continue;
+      }
+
+      depths.set(edge.to, depths.get(id)! + 1);
+      queue.push(edge.to);
+    }
+  }
+
+  const columns = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const node of data.nodes) {
+    // Nodes that can not be reached from a root, e.g. within a cycle, go to the first layer
+    const depth = depths.get(node.id) ?? 0;
+    const column = columns.get(depth) ?? 0;
+    columns.set(depth, column + 1);
+    positions.set(node.id, {
+      x: PADDING + column * (NODE_WIDTH + H_GAP),
+      y: PADDING + depth * (NODE_HEIGHT + V_GAP),
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Renders the graph data as an SVG image.
+ *
+ * @param data - The graph data.
+ * @returns The SVG markup.
+ */
+function toSvg(data: GraphData): string {
+  const positions = layout(data);
+  let width = 0;
+  let height = 0;
+  for (const { x, y } of positions.values()) {
+    width = Math.max(width, x + NODE_WIDTH + PADDING);
+    height = Math.max(height, y + NODE_HEIGHT + PADDING);
+  }
+
+  const elements: string[] = [];
+
+  // Sub-workflow clusters are drawn first, as dashed boxes around all their nested nodes
+  const members = new Map<string, GraphNode[]>();
+  for (const node of data.nodes) {
+    for (
+      let c = node.cluster;
+      c;
+      c = data.nodes.find((n) => n.id === c)?.cluster
+    ) {
+      members.set(c, [...(members.get(c) ?? []), node]);
+    }
+  }
+  for (const [cluster, nodes] of members) {
+    const boxes = nodes.map((n) => positions.get(n.id)!);
+    const x = Math.min(...boxes.map((b) => b.x)) - PADDING / 2;
+    const y = Math.min(...boxes.map((b) => b.y)) - PADDING / 2;
+    const right = Math.max(...boxes.map((b) => b.x)) + NODE_WIDTH + PADDING / 2;
+    const bottom =
+      Math.max(...boxes.map((b) => b.y)) + NODE_HEIGHT + PADDING / 2;
+    elements.push(
+      `<rect x="${x}" y="${y}" width="${right - x}" height="${bottom - y}" rx="6" fill="none" stroke="grey" stroke-dasharray="8,4"><title>${escapeHtml(cluster)}</title></rect>`,
+    );
+  }
+
+  for (const edge of data.edges) {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to) {
+      continue;
+    }
+
+    // Returning edges go from the top of the before step back to the bottom of its parent
+    const x1 = from.x + NODE_WIDTH / 2;
+    const y1 = edge.isReturn ? from.y : from.y + NODE_HEIGHT;
+    const x2 = to.x + NODE_WIDTH / 2;
+    const y2 = edge.isReturn ? to.y + NODE_HEIGHT : to.y;
+    const dash = edge.isReturn ? ' stroke-dasharray="5,4"' : '';
+    elements.push(
+      `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="black"${dash} marker-end="url(#arrow)" />`,
+    );
+
+    const label = edgeLabel(edge);
+    if (label !== undefined) {
+      elements.push(
+        `<text x="${(x1 + x2) / 2 + 4}" y="${(y1 + y2) / 2}" font-size="11">${escapeHtml(label)}</text>`,
+      );
+    }
+  }
+
+  for (const node of data.nodes) {
+    const { x, y } = positions.get(node.id)!;
+    const lines = nodeLines(node);
+    const title = [node.path ?? node.id, ...(node.ancestors ?? [])].join('\n');
+    elements.push(
+      `<g><title>${escapeHtml(title)}</title>`,
+      `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4" fill="${nodeColor(node)}" stroke="black"${node.isDynamic ? ' stroke-dasharray="5,4"' : ''} />`,
+      ...lines.map(
+        (line, i) =>
+          `<text x="${x + NODE_WIDTH / 2}" y="${y + (NODE_HEIGHT / (lines.length + 1)) * (i + 1) + 4}" text-anchor="middle" font-size="${i === 0 ? 13 : 11}">${escapeHtml(line)}</text>`,
+      ),
+      '</g>',
+    );
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="sans-serif">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" /></marker></defs>',
+    ...elements,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Converts the graph data to a standalone HTML document. The graph is rendered as an inline SVG
+ * and the raw graph data is embedded as JSON, so the file needs no external resources.
+ *
+ * @param data - The graph data.
+ * @param options - (Optional) The HTML export options.
+ * @returns The HTML document.
+ */
+export function toHtml(data: GraphData, options?: HtmlExportOptions): string {
+  const title = escapeHtml(options?.title ?? 'Step Execution Graph');
+  // Prevents the embedded JSON from closing the script tag
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8" />',
+    `<title>${title}</title>`,
+    '</head>',
+    '<body>',
+    `<h1 style="font-family: sans-serif">${title}</h1>`,
+    toSvg(data),
+    `<script type="application/json" id="graph-data">${json}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
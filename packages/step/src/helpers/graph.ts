@@ -1,15 +1,59 @@
+import {
+  GraphFormat,
+  HtmlExportOptions,
+  toDot,
+  toHtml,
+  toMermaid,
+} from './graph-export';
+
 export interface GraphNode {
   id: string;
   label: string;
+  key?: string;
+  path?: string;
   ancestors?: string[];
   queueOrder?: number;
   isError?: true;
+  isCancelled?: true;
+  attempts?: Record<string, number>;
+  /**
+   * Duration of the step in milliseconds, once it has ended.
+   */
+  duration?: number;
+  /**
+   * True for the placeholders of the steps returned from `execute` at runtime, in plans.
+   */
+  isDynamic?: true;
+  /**
+   * True for the steps skipped by their `when` predicate, and for the cases a branching step did not select.
+   */
+  isSkipped?: true;
+  /**
+   * True for the steps with a `when` predicate, in plans.
+   */
+  isConditional?: true;
+  /**
+   * The iteration of a loop the node stands for, starting from 0.
+   */
+  iteration?: number;
+  /**
+   * The id of the sub-workflow step whose nested execution the node belongs to.
+   */
+  cluster?: string;
 }
 
 export interface GraphEdge {
   from: string;
   to: string;
   queueOrder?: number;
+  /**
+   * True for the edges coming back from a before step to its parent step.
+   */
+  isReturn?: true;
+  /**
+   * The case of a branching step the edge leads to.
+   */
+  label?: string;
 }
 
 export interface GraphData {
@@ -19,6 +63,14 @@ export interface GraphData {
 
 export interface GraphOptions {
   enable?: boolean;
+  /**
+   * What to use as node ids.
+   * - `instance`: The id of the step instance. Unique, but different on every run.
+   * - `path`: The path of the step in the step tree. Stable across runs of the same tree.
+   *
+   * Default is `path`.
+   */
+  ids?: 'instance' | 'path';
 }
 
 export class Graph {
@@ -52,6 +104,55 @@ export class Graph {
     }
   }
 
+  setCancelled(id: string): void {
+    const node = this._nodes.get(id);
+    if (node) {
+      node.isCancelled = true;
+    }
+  }
+
+  setSkipped(id: string): void {
+    const node = this._nodes.get(id);
+    if (node) {
+      node.isSkipped = true;
+    }
+  }
+
+  setAttempts(id: string, stage: string, attempts: number): void {
+    const node = this._nodes.get(id);
+    if (node) {
+      node.attempts = { ...node.attempts, [stage]: attempts };
+    }
+  }
+
+  setDuration(id: string, duration: number): void {
+    const node = this._nodes.get(id);
+    if (node) {
+      node.duration = duration;
+    }
+  }
+
+  /**
+   * Exports the graph in the given format.
+   * - `dot`: Graphviz DOT source.
+   * - `mermaid`: Mermaid flowchart source.
+   * - `html`: A standalone HTML document with the graph rendered as SVG.
+   *
+   * @param format - The format to export to.
+   * @param options - (Optional) Options for the `html` format.
+   * @returns The exported graph.
+   */
+  export(format: GraphFormat, options?: HtmlExportOptions): string {
+    switch (format) {
+      case 'dot':
+        return toDot(this.data);
+      case 'mermaid':
+        return toMermaid(this.data);
+      case 'html':
+        return toHtml(this.data, options);
+    }
+  }
+
   get data(): GraphData {
     return { nodes: Array.from(this._nodes.values()), edges: [...this._edges] };
   }
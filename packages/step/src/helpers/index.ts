@@ -1,3 +1,9 @@
 export * from './concurrency-manager';
+export * from './event-emitter';
 export * from './graph';
+export * from './graph-export';
 export * from './queue';
+export * from './rate-limiter';
+export * from './retry';
+export * from './state-store';
+export * from './timeout';
@@ -23,6 +23,15 @@ describe('PriorityQueue', () => {
     expect(pq.peak()).toBeUndefined();
   });
 
+  // should return the priority of the items dequeued next
+  it('should return the priority of the items dequeued next', () => {
+    const pq = new PriorityQueue<number>();
+    expect(pq.priority).toBeUndefined();
+    pq.enqueue(5, 2);
+    pq.enqueue(3, 1);
+    expect(pq.priority).toBe(1);
+  });
+
   // should return string representation of the internal queue array
   it('should return string representation of the internal queue array', () => {
     const pq = new PriorityQueue<number>();
@@ -56,4 +65,30 @@ describe('PriorityQueue', () => {
     expect(pq.dequeue()).toEqual(['orange']);
     expect(pq.dequeue()).toEqual(expect.arrayContaining(['mango', 'apple']));
   });
+
+  // should return the groups without removing them
+  it('should return the groups in dequeue order without removing them', () => {
+    const pq = new PriorityQueue<string>();
+    pq.enqueue('apple', 2);
+    pq.enqueue('orange', 1);
+    pq.enqueue('mango', 2);
+
+    const groups = pq.groups();
+
+    expect(pq.size).toBe(3);
+    expect(groups).toEqual([pq.dequeue(), pq.dequeue()]);
+  });
+
+  // should map the items keeping their priorities
+  it('should map the items keeping their priorities', () => {
+    const pq = new PriorityQueue<number>();
+    pq.enqueue(1, 2);
+    pq.enqueue(2, 1);
+
+    const mapped = pq.map((i) => i * 10);
+
+    expect(mapped.dequeue()).toEqual([20]);
+    expect(mapped.dequeue()).toEqual([10]);
+    expect(pq.size).toBe(2);
+  });
 });
@@ -25,6 +25,13 @@ export class PriorityQueue<T = any> {
     return this._queue.length;
   }
 
+  /**
+   * Returns the priority of the items the next `dequeue` returns, or undefined if the queue is empty.
+   */
+  get priority(): number | undefined {
+    return this._peak()?.[0];
+  }
+
   /**
    * Adds one or more items to the priority queue with the specified priority.
    * Items are added based on the specified priority and then sorted in descending order of priority.
@@ -76,6 +83,43 @@ export class PriorityQueue<T = any> {
     return item ? item[1] : undefined;
   }
 
+  /**
+   * Returns the items grouped by priority, in the same order `dequeue` would return them,
+   * without removing them from the queue.
+   * Complexity: O(n)
+   *
+   * @returns The groups of items.
+   */
+  groups(): T[][] {
+    const groups: T[][] = [];
+    let priority: number | undefined;
+    for (let i = this.size - 1; i >= 0; i--) {
+      const [p, item] = this._queue[i];
+      if (p !== priority) {
+        groups.push([]);
+        priority = p;
+      }
+      groups[groups.length - 1].push(item);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Creates a new queue with the results of calling the given function on every item.
+   * The priorities and the order of the items are kept.
+   * Complexity: O(n)
+   *
+   * @param fn - The function to call on every item.
+   * @returns The new queue.
+   */
+  map<U>(fn: (item: T) => U): PriorityQueue<U> {
+    const queue = new PriorityQueue<U>();
+    queue._queue = this._queue.map(([p, item]) => [p, fn(item)]);
+
+    return queue;
+  }
+
   toString(): string {
     return `[${this._queue.map((i) => `[${i.toString()}]`).join(',')}]`;
   }
@@ -0,0 +1,43 @@
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should let the burst through and then wait for the refills', () => {
+    let now = 0;
+    const limiter = new RateLimiter({ rate: 2, burst: 3, clock: () => now });
+
+    expect([limiter.take(), limiter.take(), limiter.take()]).toEqual([0, 0, 0]);
+    expect(limiter.take()).toBe(500);
+    expect(limiter.take()).toBe(1000);
+  });
+
+  it('should refill continuously up to the burst size', () => {
+    let now = 0;
+    const limiter = new RateLimiter({
+      rate: 1,
+      interval: 100,
+      burst: 2,
+      clock: () => now,
+    });
+    limiter.take();
+    limiter.take();
+
+    now = 50;
+    expect(limiter.take()).toBe(50);
+
+    now = 10_000;
+    expect([limiter.take(), limiter.take(), limiter.take()]).toEqual([
+      0, 0, 100,
+    ]);
+  });
+
+  it('should throw for a rate that is not positive', () => {
+    expect(() => new RateLimiter({ rate: 0 })).toThrow(
+      'Rate must be greater than 0, got 0.',
+    );
+  });
+});
@@ -0,0 +1,70 @@
+export interface RateLimiterOptions {
+  /**
+   * Tokens added to the bucket per interval, e.g. the requests per second a quota allows.
+   */
+  rate: number;
+  /**
+   * Length of the interval in milliseconds. Default is 1000.
+   */
+  interval?: number;
+  /**
+   * Maximum number of tokens the bucket holds, i.e. how many can be taken at once after
+   * being idle. Default is `rate`.
+   */
+  burst?: number;
+  /**
+   * Returns the current time in milliseconds. Default is `Date.now`.
+   */
+  clock?: () => number;
+}
+
+/**
+ * A token bucket. The bucket starts full, and refills continuously at the given rate.
+ */
+export class RateLimiter {
+  private readonly _DEFAULT_INTERVAL = 1_000; // 1 second
+
+  private readonly _rate: number;
+  private readonly _interval: number;
+  private readonly _burst: number;
+  private readonly _clock: () => number;
+
+  private _tokens: number;
+  private _refilledAt: number;
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.rate > 0)) {
+      throw new Error(`Rate must be greater than 0, got ${options.rate}.`);
+    }
+
+    this._rate = options.rate;
+    this._interval = options.interval ?? this._DEFAULT_INTERVAL;
+    this._burst = Math.max(options.burst ?? options.rate, 1);
+    this._clock = options.clock ?? Date.now;
+    this._tokens = this._burst;
+    this._refilledAt = this._clock();
+  }
+
+  /**
+   * Takes a token. If the bucket is empty, the token is borrowed from the next refills, so the
+   * holders are served in the order they took their tokens.
+   *
+   * @returns Milliseconds to wait before using the token, 0 if it can be used right away.
+   */
+  take(): number {
+    this._refill();
+    this._tokens--;
+    if (this._tokens >= 0) {
+      return 0;
+    }
+
+    return Math.ceil((-this._tokens * this._interval) / this._rate);
+  }
+
+  private _refill(): void {
+    const now = this._clock();
+    const refilled = ((now - this._refilledAt) * this._rate) / this._interval;
+    this._tokens = Math.min(this._tokens + refilled, this._burst);
+    this._refilledAt = now;
+  }
+}
@@ -0,0 +1,41 @@
+import { backoffDelay, sleep } from './retry';
+
+describe('backoffDelay', () => {
+  it('should return the base delay for fixed backoff', () => {
+    expect(backoffDelay({ delay: 100 }, 1)).toBe(100);
+    expect(backoffDelay({ backoff: 'fixed', delay: 100 }, 3)).toBe(100);
+  });
+
+  it('should grow the delay for exponential backoff', () => {
+    const options = { backoff: 'exponential' as const, delay: 100 };
+    expect(backoffDelay(options, 1)).toBe(100);
+    expect(backoffDelay(options, 2)).toBe(200);
+    expect(backoffDelay(options, 3)).toBe(400);
+    expect(backoffDelay({ ...options, factor: 3 }, 3)).toBe(900);
+  });
+
+  it('should pick a random delay up to the exponential delay for jittered backoff', () => {
+    const options = { backoff: 'jittered' as const, delay: 100 };
+    expect(backoffDelay(options, 3, () => 0.5)).toBe(200);
+    expect(backoffDelay(options, 3, () => 0)).toBe(0);
+  });
+
+  it('should not exceed maxDelay', () => {
+    expect(
+      backoffDelay({ backoff: 'exponential', delay: 100, maxDelay: 250 }, 5),
+    ).toBe(250);
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve as soon as the signal is aborted', async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+
+    const sleeping = sleep(10_000, controller.signal);
+    controller.abort();
+    await sleeping;
+
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+  });
+});
@@ -0,0 +1,81 @@
+export type BackoffStrategy = 'fixed' | 'exponential' | 'jittered';
+
+export interface BackoffOptions {
+  /**
+   * How the delay between two attempts grows.
+   * - `fixed`: always waits `delay` milliseconds.
+   * - `exponential`: waits `delay * factor ^ (attempt - 1)` milliseconds.
+   * - `jittered`: same as `exponential`, but picks a random delay between 0 and that value.
+   *
+   * Default is `fixed`.
+   */
+  backoff?: BackoffStrategy;
+  /**
+   * Base delay in milliseconds. Default is 0.
+   */
+  delay?: number;
+  /**
+   * Multiplier used by `exponential` and `jittered` strategies. Default is 2.
+   */
+  factor?: number;
+  /**
+   * Upper bound for a single delay in milliseconds. Default is no limit.
+   */
+  maxDelay?: number;
+}
+
+const DEFAULT_FACTOR = 2;
+
+/**
+ * Calculates how long to wait before the next attempt.
+ *
+ * @param options - The backoff options.
+ * @param attempt - The attempt that just failed, starting from 1.
+ * @param random - (Optional) Source of randomness for the `jittered` strategy.
+ * @returns The delay in milliseconds.
+ */
+export function backoffDelay(
+  options: BackoffOptions,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const base = options.delay ?? 0;
+  const factor = options.factor ?? DEFAULT_FACTOR;
+
+  let delay: number;
+  switch (options.backoff ?? 'fixed') {
+    case 'exponential':
+      delay = base * Math.pow(factor, attempt - 1);
+      break;
+    case 'jittered':
+      delay = random() * base * Math.pow(factor, attempt - 1);
+      break;
+    default:
+      delay = base;
+  }
+
+  return Math.round(Math.min(delay, options.maxDelay ?? Infinity));
+}
+
+/**
+ * Resolves after the given amount of milliseconds, or as soon as the signal is aborted.
+ * The callers check themselves whether they should continue after the wait.
+ *
+ * @param ms - Milliseconds to wait.
+ * @param signal - (Optional) Signal that cuts the wait short.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,39 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExecutionState, JsonFileStateStore } from './state-store';
+
+describe('JsonFileStateStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'step-state-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save, load and delete an execution state', async () => {
+    const store = new JsonFileStateStore(join(directory, 'nested'));
+    const state: ExecutionState = {
+      runId: 'run/1',
+      context: { something: 'Initial' },
+      steps: { '0:Root': { name: 'Root', stage: 'execute' } },
+      finished: false,
+      updatedAt: 1,
+    };
+
+    await store.save(state);
+    await expect(store.load('run/1')).resolves.toEqual(state);
+
+    await store.delete('run/1');
+    await expect(store.load('run/1')).resolves.toBeUndefined();
+  });
+
+  it('should return undefined for an unknown run', async () => {
+    const store = new JsonFileStateStore(directory);
+
+    await expect(store.load('unknown')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+/**
+ * Progress of a single step, identified by its path in the step tree.
+ */
+export interface StepCheckpoint {
+  name: string;
+  /**
+   * The last stage the step has successfully completed.
+   */
+  stage: 'prepare' | 'execute' | 'final';
+  /**
+   * The output the step returned from `execute`, if any.
+   */
+  output?: unknown;
+}
+
+/**
+ * Persisted progress of an execution.
+ */
+export interface ExecutionState<C = unknown> {
+  runId: string;
+  context: C;
+  /**
+   * Checkpoints of the steps by their path.
+   */
+  steps: Record<string, StepCheckpoint>;
+  /**
+   * True once the execution has finished, regardless of its status.
+   */
+  finished: boolean;
+  status?: string;
+  updatedAt: number;
+}
+
+/**
+ * Persists the progress of executions so they can be resumed later.
+ */
+export interface StateStore {
+  load(runId: string): Promise<ExecutionState | undefined>;
+  save(state: ExecutionState): Promise<void>;
+  delete(runId: string): Promise<void>;
+}
+
+/**
+ * Keeps the execution states in memory. Useful for tests and for resuming within the same process.
+ */
+export class InMemoryStateStore implements StateStore {
+  private _states: Map<string, string> = new Map();
+
+  async load(runId: string): Promise<ExecutionState | undefined> {
+    const state = this._states.get(runId);
+    return state ? JSON.parse(state) : undefined;
+  }
+
+  async save(state: ExecutionState): Promise<void> {
+    // Stored serialized, so the saved state can not be changed by reference
+    this._states.set(state.runId, JSON.stringify(state));
+  }
+
+  async delete(runId: string): Promise<void> {
+    this._states.delete(runId);
+  }
+}
+
+/**
+ * Keeps each execution state in a JSON file named after the run id within the given directory.
+ * The context has to be JSON serializable.
+ */
+export class JsonFileStateStore implements StateStore {
+  constructor(private readonly _directory: string) {}
+
+  async load(runId: string): Promise<ExecutionState | undefined> {
+    try {
+      return JSON.parse(await readFile(this._path(runId), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  async save(state: ExecutionState): Promise<void> {
+    await mkdir(this._directory, { recursive: true });
+
+    // Writing to a temporary file first, so a crash never leaves a half written state behind
+    const path = this._path(state.runId);
+    await writeFile(`${path}.tmp`, JSON.stringify(state), 'utf8');
+    await rename(`${path}.tmp`, path);
+  }
+
+  async delete(runId: string): Promise<void> {
+    await rm(this._path(runId), { force: true });
+  }
+
+  private _path(runId: string): string {
+    return join(this._directory, `${encodeURIComponent(runId)}.json`);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Runs the given function and rejects if it does not settle within the given time.
+ * The function receives a signal that is aborted with the timeout error when the time is up,
+ * or when the optional parent signal is aborted.
+ *
+ * @param fn - The function to run.
+ * @param ms - Milliseconds to wait before timing out.
+ * @param createError - Creates the error to reject with when the time is up.
+ * @param parent - (Optional) A signal that aborts the signal passed to the function.
+ * @returns The result of the function.
+ */
+export async function withTimeout<R>(
+  fn: (signal: AbortSignal) => Promise<R>,
+  ms: number,
+  createError: () => Error,
+  parent?: AbortSignal,
+): Promise<R> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) {
+    onAbort();
+  }
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(
+      () => {
+        const error = createError();
+        controller.abort(error);
+        reject(error);
+      },
+      Math.max(ms, 0),
+    );
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    parent?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,83 @@
+import { deepFreeze, ImmutableContext, setIn } from './immutable-context';
+
+describe('deepFreeze', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should freeze nested plain objects and arrays, but not class instances', () => {
+    const date = new Date();
+    const value = deepFreeze({ a: { b: [{ c: 1 }] }, date });
+
+    expect(Object.isFrozen(value.a)).toBe(true);
+    expect(Object.isFrozen(value.a.b)).toBe(true);
+    expect(Object.isFrozen(value.a.b[0])).toBe(true);
+    expect(Object.isFrozen(date)).toBe(false);
+  });
+});
+
+describe('setIn', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should copy only the objects and arrays along the path', () => {
+    const target = { a: { b: [{ c: 1 }, { c: 2 }] }, other: { d: 1 } };
+
+    const updated = setIn(target, ['a', 'b', 1, 'c'], 3) as typeof target;
+
+    expect(updated).toEqual({
+      a: { b: [{ c: 1 }, { c: 3 }] },
+      other: { d: 1 },
+    });
+    expect(target.a.b[1].c).toBe(2);
+    expect(updated.other).toBe(target.other);
+    expect(updated.a.b[0]).toBe(target.a.b[0]);
+    expect(Array.isArray(updated.a.b)).toBe(true);
+  });
+
+  it('should create the missing objects along the path', () => {
+    expect(setIn(undefined, ['a', 'b'], 1)).toEqual({ a: { b: 1 } });
+  });
+});
+
+describe('ImmutableContext', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should only freeze the context itself by default', () => {
+    const context = new ImmutableContext({ batch: { size: 1 } });
+
+    expect(Object.isFrozen(context.get())).toBe(true);
+    expect(Object.isFrozen(context.get().batch)).toBe(false);
+  });
+
+  it('should deeply freeze the context and share the unchanged values on update', () => {
+    const context = new ImmutableContext(
+      { batch: { size: 1 }, documents: [{ id: 1 }] },
+      { deep: true },
+    );
+
+    const updated = context.update(() => ({ batch: { size: 2 } }));
+
+    expect(Object.isFrozen(context.get().documents[0])).toBe(true);
+    expect(Object.isFrozen(updated.get().batch)).toBe(true);
+    expect(updated.get().documents).toBe(context.get().documents);
+  });
+
+  it('should pass a copy to the updater, so it can change its argument', () => {
+    const context = new ImmutableContext({ count: 1 });
+
+    const updated = context.update((c) => {
+      (c as { count: number }).count = 2;
+      return c;
+    });
+
+    expect(updated.get()).toEqual({ count: 2 });
+    expect(context.get()).toEqual({ count: 1 });
+  });
+});
@@ -1,15 +1,145 @@
+import type { Step } from './step';
+
 export interface IContext {}
 
+/**
+ * A path to a nested value of the context, e.g. `'batch.documents.0.title'`
+ * or `['batch', 'documents', 0, 'title']` for keys containing dots.
+ */
+export type ContextPath = string | (string | number)[];
+
+export interface ContextUpdater<C extends IContext> {
+  (updater: (context: Readonly<C>) => Partial<C>): void;
+  /**
+   * Sets a nested value of the context. Only the objects and arrays along the path are copied,
+   * the rest of the context is shared with the previous version.
+   *
+   * @param path The path of the value.
+   * @param value The new value.
+   */
+  set(path: ContextPath, value: unknown): void;
+}
+
 export interface IHandlers<C extends IContext> {
   stopImmediate: () => void;
-  contextUpdater: (updater: (context: Readonly<C>) => Partial<C>) => void;
+  contextUpdater: ContextUpdater<C>;
+  /**
+   * Aborted when the execution is cancelled. Pass it to your long running tasks
+   * or check it periodically to stop cooperatively.
+   */
+  signal: AbortSignal;
+  /**
+   * Returns the output the given step returned from its `execute` in the current execution,
+   * or undefined if the step has not been executed yet or returned no output.
+   */
+  outputOf: <SC extends IContext, O>(step: Step<SC, O>) => O | undefined;
+}
+
+export interface ImmutableContextOptions {
+  /**
+   * Freezes the nested plain objects and arrays of the context as well, not only the context itself.
+   * Values are frozen in place, and the values that are already frozen are not visited again,
+   * so an update only freezes what it changed.
+   */
+  deep?: boolean;
+}
+
+function isFreezable(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null || Object.isFrozen(value)) {
+    return false;
+  }
+
+  // Class instances such as dates, maps or buffers are left as they are
+  const prototype = Object.getPrototypeOf(value);
+  return (
+    Array.isArray(value) || prototype === Object.prototype || prototype === null
+  );
+}
+
+/**
+ * Freezes the given value and all the plain objects and arrays within it.
+ *
+ * @param value - The value to freeze.
+ * @returns The same value.
+ */
+export function deepFreeze<T>(value: T): T {
+  if (isFreezable(value)) {
+    Object.freeze(value);
+    Object.values(value).forEach(deepFreeze);
+  }
+
+  return value;
+}
+
+/**
+ * Sets a nested value, copying only the objects and arrays along the path.
+ *
+ * @param target - The object or array to set the value in.
+ * @param path - The keys leading to the value.
+ * @param value - The new value.
+ * @returns A copy of the target with the value set. Missing objects along the path are created.
+ */
+export function setIn(
+  target: unknown,
+  path: (string | number)[],
+  value: unknown,
+): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const [key, ...rest] = path;
+  const current = (target as Record<string | number, unknown> | undefined)?.[
+    key
+  ];
+  const next = setIn(current, rest, value);
+
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[Number(key)] = next;
+    return copy;
+  }
+
+  return { ...(target as object | undefined), [key]: next };
+}
+
+/**
+ * Creates a context updater that passes its updates to the given function, including the
+ * updates of its path setter.
+ *
+ * @param update - The function that applies the updates.
+ * @returns The context updater.
+ */
+export function createContextUpdater<C extends IContext>(
+  update: (updater: (context: Readonly<C>) => Partial<C>) => void,
+): ContextUpdater<C> {
+  const contextUpdater = (updater: (context: Readonly<C>) => Partial<C>) =>
+    update(updater);
+
+  contextUpdater.set = (path: ContextPath, value: unknown) => {
+    const [key, ...rest] = typeof path === 'string' ? path.split('.') : path;
+    update(
+      (context) =>
+        ({
+          [key]: setIn(context[key as keyof C], rest, value),
+        }) as Partial<C>,
+    );
+  };
+
+  return contextUpdater;
 }
 
 export class ImmutableContext<C extends IContext> {
   private _context: Readonly<C>;
 
-  constructor(context: C) {
+  constructor(
+    context: C,
+    private readonly _options: ImmutableContextOptions = {},
+  ) {
     this._context = Object.freeze({ ...context });
+    if (_options.deep) {
+      Object.values(this._context).forEach(deepFreeze);
+    }
   }
 
   get(): Readonly<C> {
@@ -17,8 +147,9 @@ export class ImmutableContext<C extends IContext> {
   }
 
   update(updater: (context: Readonly<C>) => Partial<C>): ImmutableContext<C> {
+    // A shallow copy, so an updater changing its argument does not fail on the frozen context
     const updates = updater({ ...this._context });
     const newContext = { ...this._context, ...updates };
-    return new ImmutableContext(newContext);
+    return new ImmutableContext(newContext, this._options);
   }
 }
@@ -1,4 +1,84 @@
-export { IContext, IHandlers } from './immutable-context';
-export { Step } from './step';
-export { createExecutor } from './step-executor';
-export { IStep, step } from './step-factory';
+export {
+  ContextConflictError,
+  ContextValidationError,
+  ExecutionError,
+  ForEachItemError,
+  LoopLimitError,
+  StepTimeoutError,
+  UndeclaredWriteError,
+} from './errors';
+export {
+  ExecutionState,
+  GraphData,
+  GraphEdge,
+  GraphFormat,
+  GraphNode,
+  HtmlExportOptions,
+  InMemoryStateStore,
+  JsonFileStateStore,
+  RateLimiterOptions,
+  StateStore,
+  StepCheckpoint,
+  toDot,
+  toHtml,
+  toMermaid,
+} from './helpers';
+export {
+  ContextPath,
+  ContextUpdater,
+  IContext,
+  IHandlers,
+} from './immutable-context';
+export { ContextConflict, MergeStrategies, MergeStrategy } from './merge';
+export { Middleware, MiddlewareContext, MiddlewareStage } from './middleware';
+export {
+  RetryPolicy,
+  Step,
+  StepResources,
+  StepStage,
+  StepTimeout,
+} from './step';
+export {
+  CancellationMode,
+  CompensationResult,
+  ContextChange,
+  ContextVersion,
+  createExecutor,
+  ErrorDecision,
+  ErrorDetails,
+  ErrorHandlers,
+  ExecutionPlan,
+  ExecutionResult,
+  ExecutionStatus,
+  PlannedStep,
+  PlanOptions,
+  StartOptions,
+  StepError,
+  StepRecord,
+  Options as StepExecutorOptions,
+  StepStatus,
+} from './step-executor';
+export * from './step-events';
+export {
+  branch,
+  forEach,
+  ForEachItemResult,
+  ForEachMode,
+  ForEachOptions,
+  IStep,
+  loop,
+  LoopOptions,
+  LoopResult,
+  pollUntil,
+  step,
+  subflow,
+  SubflowOptions,
+  switchOn,
+} from './step-factory';
+export {
+  ContextValidator,
+  fromParse,
+  fromSafeParse,
+  fromValidate,
+  fromValidateSync,
+} from './validation';
@@ -0,0 +1,62 @@
+import { deepMerge, isCommutative, mergeValue } from './merge';
+
+describe('deepMerge', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should merge plain objects recursively and replace anything else', () => {
+    const current = { a: { b: 1, c: [1] }, d: 'd' };
+
+    const merged = deepMerge<object>(current, { a: { c: [2] }, e: 'e' });
+
+    expect(merged).toEqual({ a: { b: 1, c: [2] }, d: 'd', e: 'e' });
+    expect(current).toEqual({ a: { b: 1, c: [1] }, d: 'd' });
+  });
+});
+
+describe('mergeValue', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ['replace', [1], [2], [2]],
+    ['error', 1, 2, 2],
+    ['append', [1], [2, 3], [1, 2, 3]],
+    ['append', undefined, 1, [1]],
+    ['sum', 1, 2, 3],
+    ['sum', undefined, 2, 2],
+    ['deepMerge', { a: 1 }, { b: 2 }, { a: 1, b: 2 }],
+  ] as const)(
+    'should merge with the %s strategy',
+    (strategy, current, value, expected) => {
+      expect(mergeValue(strategy, current, value)).toEqual(expected);
+    },
+  );
+
+  it('should merge with a merge function', () => {
+    expect(mergeValue(Math.max, 3, 2)).toBe(3);
+  });
+});
+
+describe('isCommutative', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should only be true for the strategies that can not lose a write', () => {
+    expect([isCommutative('sum'), isCommutative('append')]).toEqual([
+      true,
+      true,
+    ]);
+    expect([
+      isCommutative('replace'),
+      isCommutative('deepMerge'),
+      isCommutative(Math.max),
+    ]).toEqual([false, false, false]);
+  });
+});
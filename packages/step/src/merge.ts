@@ -0,0 +1,120 @@
+import type { IContext } from './immutable-context';
+
+/**
+ * How an update of a context key is merged into its current value:
+ * - `replace`: The updated value replaces the current one. This is the default.
+ * - `append`: The updated value, or its items if it is an array, are appended to the current array.
+ * - `sum`: The updated value is added to the current number.
+ * - `deepMerge`: The updated object is merged into the current object recursively. Arrays are replaced.
+ * - `error`: Same as `replace`, but a write based on a stale read fails with a `ContextConflictError`.
+ * - A function: Returns the merged value from the current and the updated values.
+ */
+export type MergeStrategy<T = any> =
+  | 'replace'
+  | 'append'
+  | 'sum'
+  | 'deepMerge'
+  | 'error'
+  | ((current: T | undefined, value: T) => T);
+
+export type MergeStrategies<C extends IContext> = {
+  [K in keyof C]?: MergeStrategy<C[K]>;
+};
+
+/**
+ * A write of a context key based on a stale read: another step changed the key after the step
+ * had read the context, and the step did not read the key again in its updater.
+ * The writes merged with `sum` or `append` are never stale, they do not depend on the value read.
+ */
+export interface ContextConflict {
+  key: string;
+  stepName: string;
+  stepId: string;
+  /**
+   * The value of the key when the step read the context.
+   */
+  read: unknown;
+  /**
+   * The value of the key written by another step meanwhile.
+   */
+  current: unknown;
+  /**
+   * The value the step wrote.
+   */
+  value: unknown;
+  /**
+   * The strategy the write was merged with, `custom` for a merge function.
+   */
+  strategy: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Merges the given object into the current one recursively. Anything but plain objects is replaced.
+ *
+ * @param current - The current value.
+ * @param value - The value to merge.
+ * @returns A new merged value, the given values are not changed.
+ */
+export function deepMerge<T>(current: T, value: T): T {
+  if (!isPlainObject(current) || !isPlainObject(value)) {
+    return value;
+  }
+
+  const merged: Record<string, unknown> = { ...current };
+  for (const [key, v] of Object.entries(value)) {
+    merged[key] = deepMerge(merged[key], v);
+  }
+
+  return merged as T;
+}
+
+/**
+ * Checks if the given strategy merges the writes of a key in any order without losing any of them.
+ * Such writes are not based on the value read, so they are never stale.
+ *
+ * @param strategy - The merge strategy of a key.
+ * @returns True for the `sum` and `append` strategies.
+ */
+export function isCommutative(strategy: MergeStrategy): boolean {
+  return strategy === 'sum' || strategy === 'append';
+}
+
+/**
+ * Merges an updated value into the current value of a key with the given strategy.
+ *
+ * @param strategy - The merge strategy of the key.
+ * @param current - The current value of the key.
+ * @param value - The updated value.
+ * @returns The merged value.
+ */
+export function mergeValue(
+  strategy: MergeStrategy,
+  current: unknown,
+  value: unknown,
+): unknown {
+  if (typeof strategy === 'function') {
+    return strategy(current, value);
+  }
+
+  switch (strategy) {
+    case 'append':
+      return [
+        ...((current as unknown[] | undefined) ?? []),
+        ...(Array.isArray(value) ? value : [value]),
+      ];
+    case 'sum':
+      return ((current as number | undefined) ?? 0) + (value as number);
+    case 'deepMerge':
+      return deepMerge(current, value);
+    default:
+      return value;
+  }
+}
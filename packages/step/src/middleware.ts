@@ -0,0 +1,89 @@
+import type { IContext, IHandlers } from './immutable-context';
+import type { StepStage } from './step';
+
+export type MiddlewareStage = StepStage | 'rollback';
+
+/**
+ * What a middleware knows about the stage call it wraps.
+ */
+export interface MiddlewareContext<C extends IContext> {
+  stepName: string;
+  stepId: string;
+  /**
+   * Names of the ancestor steps, starting from the root step.
+   */
+  ancestors?: string[];
+  stage: MiddlewareStage;
+  /**
+   * The attempt of the stage, starting from 1. A rollback is attempted again when its
+   * error handler returns `retry`.
+   */
+  attempt: number;
+  /**
+   * The context at the time the stage is called.
+   */
+  context: Readonly<C>;
+  /**
+   * The handlers passed to the stage.
+   */
+  handlers: IHandlers<C>;
+}
+
+/**
+ * Wraps every stage call of every step. Call `next` to continue with the next middleware and
+ * finally the stage itself, and return what it resolves with. Not calling `next` skips the stage,
+ * and throwing fails it like an error thrown by the stage.
+ *
+ * @example
+ * ```typescript
+ *   const timing: Middleware<MyContext> = async (ctx, next) => {
+ *     const startedAt = Date.now();
+ *     try {
+ *       return await next();
+ *     } finally {
+ *       console.log(`${ctx.stepName}:${ctx.stage}`, Date.now() - startedAt);
+ *     }
+ *   };
+ * ```
+ */
+export type Middleware<C extends IContext> = (
+  ctx: MiddlewareContext<C>,
+  next: () => Promise<unknown>,
+) => Promise<unknown>;
+
+/**
+ * Calls the stage through the given middleware, the first one being the outermost.
+ *
+ * @param middleware - The middleware to call, in the order they were registered.
+ * @param ctx - The context passed to every middleware.
+ * @param stage - The function that calls the stage itself.
+ * @returns What the outermost middleware resolves with.
+ */
+export function runMiddleware<C extends IContext>(
+  middleware: Middleware<C>[],
+  ctx: MiddlewareContext<C>,
+  stage: () => Promise<unknown>,
+): Promise<unknown> {
+  const dispatch = (index: number): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) {
+      return stage();
+    }
+
+    let called = false;
+    return current(ctx, () => {
+      if (called) {
+        return Promise.reject(
+          new Error(
+            `next() called multiple times in ${ctx.stepName}:${ctx.stage}`,
+          ),
+        );
+      }
+
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,151 @@
+import type { IContext } from './immutable-context';
+import type { StepStage } from './step';
+import type {
+  CancellationMode,
+  ExecutionResult,
+  StepStatus,
+} from './step-executor';
+
+/**
+ * Common payload of all the step events.
+ */
+export interface StepEvent {
+  stepName: string;
+  stepId: string;
+  /**
+   * Names of the ancestor steps, starting from the root step.
+   */
+  ancestors?: string[];
+  /**
+   * Order of the queue the step was dequeued from, if it was in a before or after queue.
+   */
+  queueOrder?: number;
+  timestamp: number;
+}
+
+export interface StepStageEvent extends StepEvent {
+  stage: StepStage;
+}
+
+export interface StepStageEndEvent extends StepStageEvent {
+  duration: number;
+  attempts: number;
+  /**
+   * Milliseconds the step waited for its rate limiter. The first attempt waits before the stage
+   * starts, without holding a concurrency slot, so only the waits of the retries are included
+   * in the duration. Undefined if the stage is not rate limited.
+   */
+  throttled?: number;
+  /**
+   * The error of the last attempt, if the stage failed.
+   */
+  error?: unknown;
+}
+
+export interface StepRetryEvent extends StepStageEvent {
+  attempt: number;
+  error: unknown;
+  /**
+   * Milliseconds to wait before the next attempt.
+   */
+  delay: number;
+}
+
+export interface StepThrottledEvent extends StepStageEvent {
+  /**
+   * The named rate limiter the step waits for, undefined for the shared one.
+   */
+  limiter?: string;
+  /**
+   * Milliseconds to wait for a token.
+   */
+  wait: number;
+}
+
+export interface StepErrorEvent extends StepEvent {
+  stage: StepStage | 'rollback';
+  error: unknown;
+  /**
+   * True if the error stopped the execution.
+   */
+  stopped: boolean;
+}
+
+export interface StepRollbackEvent extends StepEvent {
+  duration: number;
+  error?: unknown;
+}
+
+export interface StepEndEvent extends StepEvent {
+  status: StepStatus;
+  duration: number;
+}
+
+export interface ContextUpdatedEvent<C extends IContext> {
+  /**
+   * The step that updated the context, if the update was done through the step's handlers.
+   */
+  stepName?: string;
+  stepId?: string;
+  previous: Readonly<C>;
+  context: Readonly<C>;
+  /**
+   * The keys of the context whose values changed.
+   */
+  changed: (keyof C)[];
+  timestamp: number;
+}
+
+export interface QueueDequeuedEvent extends StepEvent {
+  queue: 'before' | 'after' | 'immediate' | 'branch' | 'forEach';
+  /**
+   * Order of the dequeued group within the queue.
+   */
+  order?: number;
+  steps: { stepName: string; stepId: string }[];
+}
+
+export interface ExecutorEvent {
+  timestamp: number;
+}
+
+export interface ExecutorStoppedEvent extends ExecutorEvent {
+  /**
+   * The step that caused the stop, if known.
+   */
+  stepName?: string;
+  stepId?: string;
+}
+
+export interface ExecutorCancelledEvent extends ExecutorEvent {
+  mode: CancellationMode;
+  reason?: unknown;
+}
+
+export interface ExecutorEndEvent<C extends IContext> extends ExecutorEvent {
+  result: ExecutionResult<C>;
+}
+
+/**
+ * All the events emitted by the StepExecutor and their payloads.
+ */
+export interface StepExecutorEvents<C extends IContext> {
+  'executor:start': ExecutorEvent;
+  'executor:stopped': ExecutorStoppedEvent;
+  'executor:cancelled': ExecutorCancelledEvent;
+  'executor:end': ExecutorEndEvent<C>;
+  'step:start': StepEvent;
+  'step:end': StepEndEvent;
+  'step:prepare:start': StepStageEvent;
+  'step:prepare:end': StepStageEndEvent;
+  'step:execute:start': StepStageEvent;
+  'step:execute:end': StepStageEndEvent;
+  'step:final:start': StepStageEvent;
+  'step:final:end': StepStageEndEvent;
+  'step:retry': StepRetryEvent;
+  'step:throttled': StepThrottledEvent;
+  'step:error': StepErrorEvent;
+  'step:rollback': StepRollbackEvent;
+  'context:updated': ContextUpdatedEvent<C>;
+  'queue:dequeued': QueueDequeuedEvent;
+}
@@ -1,7 +1,26 @@
+import {
+  ContextConflictError,
+  ContextValidationError,
+  ExecutionError,
+  ForEachItemError,
+  LoopLimitError,
+  StepTimeoutError,
+  UndeclaredWriteError,
+} from './errors';
+import { InMemoryStateStore } from './helpers';
 import { IContext, IHandlers } from './immutable-context';
 import { Step } from './step';
 import { createExecutor } from './step-executor';
-import { IStep, step } from './step-factory';
+import {
+  branch,
+  forEach,
+  IStep,
+  loop,
+  pollUntil,
+  step,
+  subflow,
+  switchOn,
+} from './step-factory';
 
 interface MyTestContext extends IContext {}
 
@@ -157,7 +176,7 @@ describe('_start', () => {
     await executor.start();
 
     expect(updateGraphSpy).toHaveBeenCalledTimes(1);
-    expect(updateGraphSpy).toHaveBeenCalledWith(stepA, {});
+    expect(updateGraphSpy).toHaveBeenCalledWith(stepA, { path: '0:StepA' });
   });
 
   it('should call _stopImmediateFinalize once with the current step if _stopImmediate is set to true', async () => {
@@ -168,9 +187,2942 @@ describe('_start', () => {
 
     const stopImmediateFinalizeSpy = jest.spyOn(executorMocks, '_commonMockFn');
 
-    await executor.start();
+    // Started directly, as start() clears the state of the previous execution
+    await executor['_start'](stepA, {});
 
     expect(stopImmediateFinalizeSpy).toHaveBeenCalledTimes(1);
     expect(stopImmediateFinalizeSpy).toHaveBeenCalledWith(stepA);
   });
 });
+
+describe('_runStage', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should retry a failing stage until it succeeds', async () => {
+    const execute = jest
+      .fn()
+      .mockRejectedValueOnce(new Error())
+      .mockRejectedValueOnce(new Error())
+      .mockResolvedValue(undefined);
+    const s = step('RetryStep', { execute, retry: { maxAttempts: 3 } });
+
+    const executor = createExecutor(s, {}, undefined, {
+      graph: { enable: true },
+    });
+    await executor.start();
+
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(executor.graphData.nodes[0].attempts).toEqual({ execute: 3 });
+  });
+
+  it('should use the default retry policy given in options', async () => {
+    const execute = jest
+      .fn()
+      .mockRejectedValueOnce(new Error())
+      .mockResolvedValue(undefined);
+    const s = step('RetryStep', { execute });
+
+    const executor = createExecutor(s, {}, undefined, {
+      retry: { maxAttempts: 2 },
+    });
+    await executor.start();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry if retryOn returns false', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const execute = jest.fn().mockRejectedValue(new Error('fatal'));
+    const retryOn = jest.fn().mockReturnValue(false);
+    const s = step('RetryStep', {
+      execute,
+      retry: { maxAttempts: 5, retryOn },
+    });
+
+    await createExecutor(s, {}).start();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(retryOn).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it('should not retry stages that are not covered by the policy', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const prepare = jest.fn().mockRejectedValue(new Error());
+    const s = step('RetryStep', {
+      prepare,
+      execute: jest.fn(),
+      retry: { maxAttempts: 3, stages: ['execute'] },
+    });
+
+    await createExecutor(s, {}).start();
+
+    expect(prepare).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the error of the last attempt to the error handler', async () => {
+    const lastError = new Error('last');
+    const execute = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(lastError);
+    const s = step('RetryStep', { execute, retry: { maxAttempts: 2 } });
+    const errorHandlers = { execute: jest.fn().mockReturnValue(false) };
+
+    await createExecutor(s, {}, errorHandlers).start();
+
+    expect(errorHandlers.execute).toHaveBeenCalledTimes(1);
+    expect(errorHandlers.execute).toHaveBeenCalledWith(
+      lastError,
+      'RetryStep',
+      expect.objectContaining({ stage: 'execute', attempt: 2 }),
+    );
+  });
+});
+
+describe('_compensate', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should roll back executed steps in reverse completion order in saga mode', async () => {
+    const rolledBack: string[] = [];
+    const rollback = (name: string) => async () => {
+      rolledBack.push(name);
+    };
+
+    const first = step('First', {
+      execute: async () => {},
+      rollback: rollback('First'),
+    });
+    const second = step('Second', {
+      execute: async () => {},
+      rollback: rollback('Second'),
+    });
+    const failing = step('Failing', {
+      execute: async () => {
+        throw new Error();
+      },
+      rollback: rollback('Failing'),
+    });
+    const root = step('Root', {
+      execute: async () => {},
+      rollback: rollback('Root'),
+    })
+      .enqueueBefore(first, 0)
+      .enqueueAfter(second, 0)
+      .enqueueAfter(failing, 1);
+
+    const executor = createExecutor(
+      root,
+      {},
+      { execute: () => true },
+      { saga: true },
+    );
+    await executor.start();
+
+    expect(rolledBack).toEqual(['Failing', 'Second', 'Root', 'First']);
+    expect(executor.compensations.map((c) => c.stepName)).toEqual([
+      'Second',
+      'Root',
+      'First',
+    ]);
+  });
+
+  it('should record failed compensations and continue with the rest', async () => {
+    const error = new Error('rollback failed');
+    const first = step('First', {
+      execute: async () => {},
+      rollback: async () => {},
+    });
+    const second = step('Second', {
+      execute: async (context, handlers) => handlers.stopImmediate(),
+      rollback: async () => {
+        throw error;
+      },
+    });
+
+    const executor = createExecutor(
+      first.enqueueAfter(second, 0),
+      {},
+      {},
+      {
+        saga: true,
+      },
+    );
+    await executor.start();
+
+    expect(executor.compensations).toEqual([
+      {
+        stepName: 'Second',
+        stepId: expect.any(String),
+        status: 'failed',
+        error,
+      },
+      { stepName: 'First', stepId: expect.any(String), status: 'compensated' },
+    ]);
+  });
+
+  it('should compensate with a signal that is not aborted and report the failures after a cancellation', async () => {
+    const controller = new AbortController();
+    const error = new Error('rollback failed');
+    let aborted: boolean | undefined;
+    const first = step('First', {
+      execute: async () => {},
+      rollback: async (context, handlers) => {
+        aborted = handlers.signal.aborted;
+        throw error;
+      },
+    });
+    const second = step('Second', {
+      execute: async () => controller.abort(),
+    });
+
+    const result = await createExecutor(
+      first.enqueueAfter(second, 0),
+      {},
+      { rollback: () => false },
+      { saga: true },
+    ).start({ signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(aborted).toBe(false);
+    expect(result.compensations).toEqual([
+      { stepName: 'Second', stepId: expect.any(String), status: 'compensated' },
+      {
+        stepName: 'First',
+        stepId: expect.any(String),
+        status: 'failed',
+        error,
+      },
+    ]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ stepName: 'First', stage: 'rollback', error }),
+    ]);
+  });
+
+  it('should pass the handlers of the step to its compensation', async () => {
+    const first = step<{ charged?: boolean; refunded?: boolean }>('First', {
+      writes: ['charged'],
+      execute: async () => {},
+      rollback: async (context, { contextUpdater }) => {
+        contextUpdater(() => ({ refunded: true }));
+      },
+    });
+    const second = step('Second', {
+      execute: async (context, handlers) => handlers.stopImmediate(),
+    });
+
+    const result = await createExecutor(
+      first.enqueueAfter(second, 0),
+      {},
+      { rollback: () => false },
+      { saga: true },
+    ).start();
+
+    expect(result.compensations[1]).toMatchObject({
+      stepName: 'First',
+      status: 'failed',
+      error: expect.any(UndeclaredWriteError),
+    });
+    expect(result.context).toEqual({});
+  });
+
+  it('should not roll back anything if saga mode is disabled', async () => {
+    const rollback = jest.fn();
+    const first = step('First', { execute: async () => {}, rollback });
+    const second = step('Second', {
+      execute: async (context, handlers) => handlers.stopImmediate(),
+    });
+
+    const executor = createExecutor(first.enqueueAfter(second, 0), {});
+    await executor.start();
+
+    expect(rollback).not.toHaveBeenCalled();
+    expect(executor.compensations).toEqual([]);
+  });
+});
+
+describe('_result', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should resolve with completed status and the final context', async () => {
+    const s = step<{ count: number }>('Counter', {
+      execute: async (context, handlers) => {
+        handlers.contextUpdater((c) => ({ count: c.count + 1 }));
+      },
+    });
+
+    const result = await createExecutor(s, { count: 0 }).start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context).toEqual({ count: 1 });
+    expect(result.errors).toEqual([]);
+    expect(result.steps).toEqual([
+      {
+        name: 'Counter',
+        id: expect.any(String),
+        path: '0:Counter',
+        stage: 'final',
+        status: 'completed',
+        startedAt: expect.any(Number),
+        duration: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('should resolve with stopped status if a step requested an immediate stop', async () => {
+    const after = step('After', { execute: jest.fn() });
+    const s = step('Stopping', {
+      execute: async (context, handlers) => handlers.stopImmediate(),
+    }).enqueueAfter(after, 0);
+
+    const result = await createExecutor(s, {}).start();
+
+    expect(result.status).toBe('stopped');
+    expect(result.steps.map((r) => [r.name, r.status])).toEqual([
+      ['Stopping', 'stopped'],
+    ]);
+  });
+
+  it('should resolve with failed status and the captured errors', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const error = new Error();
+    const s = step('Failing', {
+      execute: async () => {
+        throw error;
+      },
+    });
+
+    const result = await createExecutor(s, {}).start();
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toEqual([
+      {
+        stepName: 'Failing',
+        stepId: expect.any(String),
+        stage: 'execute',
+        error,
+        stopped: true,
+      },
+    ]);
+    expect(result.steps[0]).toMatchObject({ status: 'failed', error });
+  });
+
+  it('should resolve with completed status if the error handler ignored the error', async () => {
+    const s = step('Failing', {
+      execute: async () => {
+        throw new Error();
+      },
+    });
+
+    const result = await createExecutor(
+      s,
+      {},
+      { execute: () => false },
+    ).start();
+
+    expect(result.status).toBe('completed');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].stopped).toBe(false);
+  });
+
+  it('should reject with an ExecutionError if rejectOnError is set', async () => {
+    const s = step('Failing', {
+      execute: async () => {
+        throw new Error();
+      },
+    });
+
+    const executor = createExecutor(
+      s,
+      {},
+      { execute: () => true },
+      { rejectOnError: true },
+    );
+
+    await expect(executor.start()).rejects.toThrow(ExecutionError);
+  });
+});
+
+describe('events', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should emit the lifecycle events in order', async () => {
+    const child = step('Child', { execute: async () => {} });
+    const root = step<{ value: number }>('Root', {
+      execute: async (context, handlers) => {
+        handlers.contextUpdater(() => ({ value: 1 }));
+      },
+    }).enqueueAfter(child, 0);
+
+    const executor = createExecutor(root, { value: 0 });
+    const events: string[] = [];
+    for (const event of [
+      'executor:start',
+      'executor:end',
+      'step:start',
+      'step:end',
+      'step:prepare:start',
+      'step:prepare:end',
+      'step:execute:start',
+      'step:execute:end',
+      'step:final:start',
+      'step:final:end',
+      'context:updated',
+      'queue:dequeued',
+    ] as const) {
+      executor.on(event, (payload) =>
+        events.push(
+          'stepName' in payload && payload.stepName
+            ? `${event} ${payload.stepName}`
+            : event,
+        ),
+      );
+    }
+
+    await executor.start();
+
+    expect(events).toEqual([
+      'executor:start',
+      'step:start Root',
+      'step:prepare:start Root',
+      'step:prepare:end Root',
+      'step:execute:start Root',
+      'context:updated Root',
+      'step:execute:end Root',
+      'queue:dequeued Root',
+      'step:start Child',
+      'step:prepare:start Child',
+      'step:prepare:end Child',
+      'step:execute:start Child',
+      'step:execute:end Child',
+      'step:final:start Child',
+      'step:final:end Child',
+      'step:end Child',
+      'step:final:start Root',
+      'step:final:end Root',
+      'step:end Root',
+      'executor:end',
+    ]);
+  });
+
+  it('should carry the step information in the payloads', async () => {
+    const child = step('Child', { execute: async () => {} });
+    const root = step('Root', { execute: async () => {} }).enqueueAfter(
+      child,
+      0,
+    );
+
+    const executor = createExecutor(root, {});
+    const listener = jest.fn();
+    executor.on('step:execute:end', listener);
+
+    await executor.start();
+
+    expect(listener).toHaveBeenLastCalledWith({
+      stepName: 'Child',
+      stepId: expect.any(String),
+      ancestors: ['Root'],
+      queueOrder: 0,
+      stage: 'execute',
+      duration: expect.any(Number),
+      attempts: 1,
+      timestamp: expect.any(Number),
+    });
+  });
+
+  it('should emit error, rollback and stopped events when a step fails', async () => {
+    const error = new Error();
+    const s = step('Failing', {
+      execute: async () => {
+        throw error;
+      },
+    });
+
+    const executor = createExecutor(s, {}, { execute: () => true });
+    const onError = jest.fn();
+    const onRollback = jest.fn();
+    const onStopped = jest.fn();
+    executor.on('step:error', onError);
+    executor.on('step:rollback', onRollback);
+    executor.on('executor:stopped', onStopped);
+
+    await executor.start();
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        stepName: 'Failing',
+        stage: 'execute',
+        error,
+        stopped: true,
+      }),
+    );
+    expect(onRollback).toHaveBeenCalledWith(
+      expect.objectContaining({ stepName: 'Failing' }),
+    );
+    expect(onStopped).toHaveBeenCalledWith(
+      expect.objectContaining({ stepName: 'Failing' }),
+    );
+  });
+
+  it('should emit a retry event before each retry', async () => {
+    const s = step('Retrying', {
+      execute: jest
+        .fn()
+        .mockRejectedValueOnce(new Error())
+        .mockResolvedValue(undefined),
+      retry: { maxAttempts: 2 },
+    });
+
+    const executor = createExecutor(s, {});
+    const listener = jest.fn();
+    executor.on('step:retry', listener);
+
+    await executor.start();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'execute', attempt: 1, delay: 0 }),
+    );
+  });
+});
+
+describe('cancellation', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should abort the step signal and start no new steps when cancelled immediately', async () => {
+    const controller = new AbortController();
+    const after = step('After', { execute: jest.fn() });
+    const rollback = jest.fn();
+    const s = step('Long', {
+      execute: (context, handlers) =>
+        new Promise((resolve, reject) => {
+          handlers.signal.addEventListener('abort', () =>
+            reject(handlers.signal.reason),
+          );
+          controller.abort(new Error('SIGTERM'));
+        }),
+      rollback,
+    }).enqueueAfter(after, 0);
+
+    const executor = createExecutor(s, {}, undefined, {
+      graph: { enable: true },
+    });
+    const onCancelled = jest.fn();
+    executor.on('executor:cancelled', onCancelled);
+
+    const result = await executor.start({ signal: controller.signal });
+
+    expect(result.status).toBe('cancelled');
+    expect(result.errors).toEqual([]);
+    expect(result.steps[0].status).toBe('cancelled');
+    expect(after.execute).not.toHaveBeenCalled();
+    expect(rollback).toHaveBeenCalled();
+    expect(executor.graphData.nodes[0]).toMatchObject({ isCancelled: true });
+    expect(onCancelled).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'immediate' }),
+    );
+  });
+
+  it('should let the running step finish when cancelled gracefully', async () => {
+    const controller = new AbortController();
+    const after = step('After', { execute: jest.fn() });
+    let aborted: boolean | undefined;
+    const s = step('Long', {
+      execute: async (context, handlers) => {
+        controller.abort();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        aborted = handlers.signal.aborted;
+      },
+    }).enqueueAfter(after, 0);
+
+    const result = await createExecutor(s, {}).start({
+      signal: controller.signal,
+      cancellation: 'graceful',
+    });
+
+    expect(aborted).toBe(false);
+    expect(after.execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('cancelled');
+  });
+
+  it('should cut the retry backoff short and make no new attempt', async () => {
+    const controller = new AbortController();
+    const execute = jest.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(new Error('SIGTERM')), 10);
+      throw new Error('Unavailable');
+    });
+    const s = step('Flaky', {
+      execute,
+      retry: { maxAttempts: 3, delay: 2_000 },
+    });
+    const onEnd = jest.fn();
+
+    const executor = createExecutor(s, {});
+    executor.on('step:execute:end', onEnd);
+    const startedAt = Date.now();
+    const result = await executor.start({ signal: controller.signal });
+
+    expect(Date.now() - startedAt).toBeLessThan(1_000);
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.status).toBe('cancelled');
+    expect(onEnd).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: 1, error: new Error('Unavailable') }),
+    );
+  });
+
+  it('should not start any step if the signal is already aborted', async () => {
+    const execute = jest.fn();
+    const s = step('Step', { execute });
+
+    const result = await createExecutor(s, {}).start({
+      signal: AbortSignal.abort(),
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('cancelled');
+  });
+});
+
+describe('_runAttempt', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should fail the stage with a StepTimeoutError and abort its signal', async () => {
+    let signal: AbortSignal | undefined;
+    const s = step('Hanging', {
+      execute: (context, handlers) => {
+        signal = handlers.signal;
+        return new Promise<void>(() => {});
+      },
+      timeout: { execute: 10 },
+    });
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+
+    const result = await createExecutor(s, {}, errorHandlers).start();
+
+    expect(result.status).toBe('failed');
+    expect(errorHandlers.execute).toHaveBeenCalledWith(
+      expect.any(StepTimeoutError),
+      'Hanging',
+      expect.objectContaining({ stage: 'execute', attempt: 1 }),
+    );
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(StepTimeoutError);
+  });
+
+  it('should not time out a stage that finishes in time', async () => {
+    const s = step('Fast', {
+      execute: async () => {},
+      timeout: 1_000,
+    });
+
+    const result = await createExecutor(s, {}).start();
+
+    expect(result.status).toBe('completed');
+  });
+
+  it('should retry a timed out stage with a fresh signal', async () => {
+    const execute = jest
+      .fn()
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockImplementation(async (context, handlers) => {
+        expect(handlers.signal.aborted).toBe(false);
+      });
+    const s = step('Retrying', {
+      execute,
+      timeout: 10,
+      retry: {
+        maxAttempts: 2,
+        retryOn: (error) => error instanceof StepTimeoutError,
+      },
+    });
+
+    const result = await createExecutor(s, {}).start();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(result.status).toBe('completed');
+  });
+
+  it('should fail the running stages and start no new steps once the deadline is reached', async () => {
+    const after = step('After', { execute: jest.fn() });
+    const s = step('Hanging', {
+      execute: () => new Promise<void>(() => {}),
+    }).enqueueAfter(after, 0);
+    const errorHandlers = { execute: jest.fn().mockReturnValue(false) };
+
+    const result = await createExecutor(s, {}, errorHandlers, {
+      deadline: 10,
+    }).start();
+
+    const [error] = errorHandlers.execute.mock.calls[0];
+    expect(error).toBeInstanceOf(StepTimeoutError);
+    expect(error.reason).toBe('deadline');
+    expect(after.execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('stopped');
+  });
+
+  it('should not start a step that waited for its slot past the deadline', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const hanging = step('Hanging', {
+      execute: () => new Promise<void>(() => {}),
+    });
+    const queued = step('Queued', { execute: jest.fn() });
+
+    const result = await createExecutor([hanging, queued], {}, undefined, {
+      deadline: 10,
+      concurrency: { limit: 1 },
+    }).start();
+
+    expect(queued.execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('failed');
+    expect(result.steps.map((s) => [s.name, s.status])).toEqual([
+      ['Hanging', 'failed'],
+      ['Queued', 'stopped'],
+    ]);
+  });
+});
+
+describe('resume', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  function createTree(failAfter: boolean) {
+    const calls: string[] = [];
+    const track = (name: string) => async () => {
+      calls.push(name);
+    };
+
+    const before = step('Before', { execute: track('Before') });
+    const after = step<{ count: number }>('After', {
+      execute: async (context, handlers) => {
+        calls.push('After');
+        if (failAfter) {
+          throw new Error();
+        }
+        handlers.contextUpdater((c) => ({ count: c.count + 1 }));
+      },
+    });
+    const root = step<{ count: number }>('Root', {
+      prepare: track('Root.prepare'),
+      execute: async (context, handlers) => {
+        calls.push('Root');
+        handlers.contextUpdater((c) => ({ count: c.count + 1 }));
+      },
+      final: track('Root.final'),
+    })
+      .enqueueBefore(before, 0)
+      .enqueueAfter(after, 0);
+
+    return { root, calls };
+  }
+
+  it('should persist the progress and skip completed steps when resuming', async () => {
+    const stateStore = new InMemoryStateStore();
+    const errorHandlers = { execute: () => true };
+
+    const first = createTree(true);
+    const executor = createExecutor(first.root, { count: 0 }, errorHandlers, {
+      stateStore,
+    });
+    const failed = await executor.start({ runId: 'run-1' });
+
+    expect(failed.status).toBe('failed');
+    expect(first.calls).toEqual(['Root.prepare', 'Before', 'Root', 'After']);
+    await expect(stateStore.load('run-1')).resolves.toMatchObject({
+      runId: 'run-1',
+      context: { count: 1 },
+      finished: true,
+      status: 'failed',
+      steps: {
+        '0:Root': { name: 'Root', stage: 'execute' },
+        '0:Root/b0.0:Before': { name: 'Before', stage: 'final' },
+      },
+    });
+
+    const second = createTree(false);
+    const resumed = createExecutor(second.root, { count: 0 }, errorHandlers, {
+      stateStore,
+    });
+    const result = await resumed.resume('run-1');
+
+    expect(result.status).toBe('completed');
+    expect(second.calls).toEqual(['Root.prepare', 'After', 'Root.final']);
+    expect(result.context).toEqual({ count: 2 });
+    expect(resumed.runId).toBe('run-1');
+  });
+
+  it('should prepare again the steps whose execute did not complete', async () => {
+    const stateStore = new InMemoryStateStore();
+    const calls: string[] = [];
+
+    // Keeps the state prepare sets up on the instance, as the README recommends
+    class Import extends Step<{}> {
+      readonly name = 'Import';
+      private _batch?: string;
+
+      constructor(private readonly _fail: boolean) {
+        super();
+      }
+
+      async prepare(): Promise<void> {
+        this._batch = 'b1';
+        this.enqueueAfter(
+          step('Notify', {
+            execute: async () => {
+              calls.push('Notify');
+            },
+          }),
+          0,
+        );
+      }
+
+      async execute(): Promise<void> {
+        calls.push(`Import:${this._batch}`);
+        if (this._fail) {
+          throw new Error();
+        }
+      }
+    }
+
+    await createExecutor(
+      new Import(true),
+      {},
+      { execute: () => true },
+      { stateStore },
+    ).start({ runId: 'run-1' });
+    const result = await createExecutor(new Import(false), {}, undefined, {
+      stateStore,
+    }).resume('run-1');
+
+    expect(result.status).toBe('completed');
+    expect(calls).toEqual(['Import:b1', 'Import:b1', 'Notify']);
+  });
+
+  it('should execute again the unfinished steps returned from an execute', async () => {
+    const stateStore = new InMemoryStateStore();
+    const calls: string[] = [];
+    const createRoot = (fail: boolean) =>
+      step('Root', {
+        execute: async () => {
+          calls.push('Root');
+          return [
+            step('Load', {
+              execute: async () => {
+                calls.push('Load');
+              },
+            }),
+            step('Save', {
+              execute: async () => {
+                calls.push('Save');
+                if (fail) {
+                  throw new Error();
+                }
+              },
+            }),
+          ];
+        },
+        final: async () => {
+          calls.push('Root.final');
+        },
+      });
+
+    await createExecutor(
+      createRoot(true),
+      {},
+      { execute: () => true },
+      { stateStore },
+    ).start({ runId: 'run-1' });
+    const result = await createExecutor(createRoot(false), {}, undefined, {
+      stateStore,
+    }).resume('run-1');
+
+    expect(result.status).toBe('completed');
+    expect(calls).toEqual([
+      'Root',
+      'Load',
+      'Save',
+      'Root',
+      'Save',
+      'Root.final',
+    ]);
+  });
+
+  it('should generate a run id if not given', async () => {
+    const stateStore = new InMemoryStateStore();
+    const executor = createExecutor(
+      step('Step', { execute: jest.fn() }),
+      {},
+      {},
+      {
+        stateStore,
+      },
+    );
+
+    await executor.start();
+
+    expect(executor.runId).toEqual(expect.any(String));
+    await expect(stateStore.load(executor.runId!)).resolves.toMatchObject({
+      finished: true,
+      status: 'completed',
+    });
+  });
+
+  it('should reject if there is no persisted state for the run', async () => {
+    const executor = createExecutor(
+      step('Step', { execute: jest.fn() }),
+      {},
+      {},
+      {
+        stateStore: new InMemoryStateStore(),
+      },
+    );
+
+    await expect(executor.resume('unknown')).rejects.toThrow(Error);
+  });
+});
+
+describe('restart', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should start over from the initial context when started again', async () => {
+    const execute = jest.fn(async (_, { contextUpdater }) => {
+      contextUpdater((c: { count: number }) => ({ count: c.count + 1 }));
+    });
+    const executor = createExecutor(
+      step<{ count: number }>('Count', { execute }),
+      { count: 0 },
+    );
+
+    const first = await executor.start();
+    const second = await executor.start();
+
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(second.status).toBe('completed');
+    expect(first.context).toEqual({ count: 1 });
+    expect(second.context).toEqual({ count: 1 });
+    expect(second.steps).toHaveLength(1);
+  });
+
+  it('should start again after a stopped or cancelled execution', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const execute = jest.fn().mockRejectedValueOnce(new Error());
+    const executor = createExecutor(step('Step', { execute }), {});
+    const controller = new AbortController();
+    controller.abort();
+
+    expect((await executor.start()).status).toBe('failed');
+    expect((await executor.start({ signal: controller.signal })).status).toBe(
+      'cancelled',
+    );
+    expect((await executor.start()).status).toBe('completed');
+  });
+
+  it('should reject starting while the executor is running', async () => {
+    const executor = createExecutor(
+      step('Slow', {
+        execute: () => new Promise((resolve) => setTimeout(resolve, 5)),
+      }),
+      {},
+    );
+
+    const running = executor.start();
+    await expect(executor.start()).rejects.toThrow(
+      'The executor is already running.',
+    );
+    await expect(running).resolves.toMatchObject({ status: 'completed' });
+  });
+});
+
+describe('_path', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  const buildTree = () =>
+    step('Root', { execute: jest.fn() })
+      .enqueueBefore(step('Before', { execute: jest.fn() }), 0)
+      .enqueueAfter(step('After', { key: 'after', execute: jest.fn() }), 0);
+
+  it('should give unique, increasing ids to the steps', () => {
+    const first = step('First', { execute: jest.fn() });
+    const second = step('Second', { execute: jest.fn() });
+
+    expect(Number(second['_id'])).toBeGreaterThan(Number(first['_id']));
+  });
+
+  it('should build the paths from the keys or the queue positions', async () => {
+    const executor = createExecutor(buildTree(), {});
+
+    const result = await executor.start();
+
+    expect(result.steps.map((s) => s.path)).toEqual([
+      '0:Root',
+      '0:Root/b0.0:Before',
+      '0:Root/after',
+    ]);
+    expect(result.steps[2].key).toBe('after');
+  });
+
+  it('should reject sibling steps with the same key', async () => {
+    const first = step('First', { key: 'notify', execute: jest.fn() });
+    const second = step('Second', { key: 'notify', execute: jest.fn() });
+    const buildRoot = () =>
+      step('Root', { execute: jest.fn() })
+        .enqueueAfter(first, 0)
+        .enqueueAfter(second, 1);
+    const message =
+      'Step "Second" has the key "notify" of one of its siblings. The keys of sibling steps have to be unique.';
+
+    expect(() => createExecutor(buildRoot(), {}).plan()).toThrow(message);
+    await expect(createExecutor(buildRoot(), {}).start()).rejects.toThrow(
+      message,
+    );
+    expect(second.execute).not.toHaveBeenCalled();
+  });
+
+  it('should use the paths as graph ids by default', async () => {
+    const run = async () => {
+      const executor = createExecutor(buildTree(), {}, undefined, {
+        graph: { enable: true },
+      });
+      await executor.start();
+      // Durations are the only part that changes between runs
+      const { nodes, edges } = executor.graphData;
+      return { nodes: nodes.map(({ duration, ...n }) => n), edges };
+    };
+
+    const first = await run();
+    const second = await run();
+
+    expect(first).toEqual(second);
+    expect(first.nodes.map((n) => n.id)).toEqual([
+      '0:Root',
+      '0:Root/b0.0:Before',
+      '0:Root/after',
+    ]);
+    expect(first.edges).toContainEqual(
+      expect.objectContaining({ from: '0:Root', to: '0:Root/after' }),
+    );
+  });
+
+  it('should use the ids of the step instances as graph ids if configured', async () => {
+    const executor = createExecutor(buildTree(), {}, undefined, {
+      graph: { enable: true, ids: 'instance' },
+    });
+
+    const result = await executor.start();
+
+    expect(executor.graphData.nodes.map((n) => n.id)).toEqual(
+      result.steps.map((s) => s.id),
+    );
+  });
+});
+
+describe('exportGraph', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should mark the returning edges and the durations in the graph', async () => {
+    const before = step('Before', { execute: jest.fn() });
+    const root = step('Root', { execute: jest.fn() }).enqueueBefore(before, 0);
+    const executor = createExecutor(root, {}, undefined, {
+      graph: { enable: true, ids: 'path' },
+    });
+
+    await executor.start();
+
+    expect(executor.graphData.edges).toEqual([
+      { from: '0:Root', to: '0:Root/b0.0:Before', queueOrder: 0 },
+      { from: '0:Root/b0.0:Before', to: '0:Root', isReturn: true },
+    ]);
+    expect(executor.graphData.nodes).toEqual([
+      expect.objectContaining({ id: '0:Root', duration: expect.any(Number) }),
+      expect.objectContaining({
+        id: '0:Root/b0.0:Before',
+        duration: expect.any(Number),
+      }),
+    ]);
+    expect(executor.exportGraph('dot')).toContain(
+      '"0:Root/b0.0:Before" -> "0:Root" [style=dashed];',
+    );
+    expect(executor.exportGraph('mermaid')).toContain('n1 -.-> n0');
+  });
+});
+
+describe('plan', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  const buildTree = () => {
+    const stages = {
+      prepare: jest.fn(),
+      execute: jest.fn(),
+      final: jest.fn(),
+    };
+    const root = step('Root', stages)
+      .enqueueBefore(step('Before', stages), 0)
+      .enqueueAfter(step('After', stages), 0)
+      .enqueueAfter(step('Notify', { key: 'notify', ...stages }), 1);
+
+    return { root, stages };
+  };
+
+  it('should walk the tree without running any stage or draining the queues', async () => {
+    const { root, stages } = buildTree();
+    const executor = createExecutor(root, {});
+
+    const plan = executor.plan({ dynamic: false });
+
+    expect(plan.steps.map((s) => s.path)).toEqual([
+      '0:Root/b0.0:Before',
+      '0:Root',
+      '0:Root/a0.0:After',
+      '0:Root/notify',
+    ]);
+    expect(plan.text).toBe(
+      [
+        '  Before [before 0] (0:Root/b0.0:Before)',
+        'Root (0:Root)',
+        '  After [after 0] (0:Root/a0.0:After)',
+        '  Notify [after 1] (0:Root/notify)',
+      ].join('\n'),
+    );
+    expect(stages.prepare).not.toHaveBeenCalled();
+    expect(stages.execute).not.toHaveBeenCalled();
+    expect(stages.final).not.toHaveBeenCalled();
+
+    await executor.start();
+
+    expect(stages.execute).toHaveBeenCalledTimes(4);
+  });
+
+  it('should build the same graph as the execution', async () => {
+    const { root } = buildTree();
+    const executor = createExecutor(root, {}, undefined, {
+      graph: { enable: true, ids: 'path' },
+    });
+
+    const plan = executor.plan({ dynamic: false });
+    await executor.start();
+
+    expect(plan.graph.edges).toEqual(
+      expect.arrayContaining(executor.graphData.edges),
+    );
+    expect(plan.graph.nodes.map((n) => n.id)).toEqual(
+      executor.graphData.nodes.map((n) => n.id),
+    );
+  });
+
+  it('should add placeholders for the dynamic steps', () => {
+    const executor = createExecutor(step('Root', { execute: jest.fn() }), {});
+
+    const plan = executor.plan();
+
+    expect(plan.steps).toEqual([
+      { name: 'Root', key: undefined, path: '0:Root' },
+      {
+        name: 'dynamic',
+        path: '0:Root/i*:dynamic',
+        ancestors: ['Root'],
+        queue: 'immediate',
+        dynamic: true,
+      },
+    ]);
+    expect(plan.graph.nodes[1]).toMatchObject({ isDynamic: true });
+    expect(plan.graph.edges).toEqual([
+      { from: expect.any(String), to: plan.graph.nodes[1].id },
+    ]);
+  });
+
+  it('should throw if a step is repeated more than allowed', () => {
+    const root = step('Root', { execute: jest.fn() });
+    root.enqueueAfter(root, 0);
+    const executor = createExecutor(root, {}, undefined, {
+      maxRepetitions: 2,
+    });
+
+    expect(() => executor.plan()).toThrow(Error);
+  });
+});
+
+describe('clone', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should copy the step and its queues without changing the original', () => {
+    const after = step('After', { execute: jest.fn() });
+    const root = step('Root', { key: 'root', execute: jest.fn() })
+      .enqueueAfter(after, 0)
+      .enqueueAfter(after, 1);
+
+    const copy = root.clone();
+
+    expect(copy).not.toBe(root);
+    expect(copy).toBeInstanceOf(Step);
+    expect(copy.name).toBe('Root');
+    expect(copy.key).toBe('root');
+    expect(copy.execute).toBe(root.execute);
+
+    const [[first], [second]] = [
+      copy['_after'].dequeue(),
+      copy['_after'].dequeue(),
+    ];
+    expect(first).not.toBe(after);
+    expect(first).toBe(second);
+    expect(root['_after'].size).toBe(2);
+  });
+
+  it('should execute the same steps more than once', async () => {
+    const execute = jest.fn();
+    const root = step('Root', { execute })
+      .enqueueBefore(step('Before', { execute }), 0)
+      .enqueueAfter(step('After', { execute }), 0);
+
+    const first = await createExecutor(root, {}).start();
+    const second = await createExecutor(root, {}).start();
+
+    expect(execute).toHaveBeenCalledTimes(6);
+    expect(second.steps.map((s) => s.path)).toEqual(
+      first.steps.map((s) => s.path),
+    );
+  });
+
+  it('should execute the same steps concurrently', async () => {
+    const calls: string[] = [];
+    const track = (name: string) => async () => {
+      calls.push(name);
+    };
+    const shared = step('Shared', { execute: track('Shared') });
+    const root = step('Root', { execute: track('Root') }).enqueueAfter(
+      shared,
+      0,
+    );
+
+    await Promise.all([
+      createExecutor(root, {}).start(),
+      createExecutor(root, {}).start(),
+    ]);
+
+    expect(calls.sort()).toEqual(['Root', 'Root', 'Shared', 'Shared']);
+  });
+
+  it('should give a step instance returned twice records of its own', async () => {
+    const child = step('Child', { execute: async () => 'done' });
+    const root = step('Root', { execute: async () => [child, child] });
+
+    const result = await createExecutor(root, {}, undefined, {
+      graph: { enable: true },
+    }).start();
+
+    const children = result.steps.filter((s) => s.name === 'Child');
+    expect(children).toHaveLength(2);
+    expect(new Set(children.map((s) => s.id)).size).toBe(2);
+    expect(children.map((s) => s.status)).toEqual(['completed', 'completed']);
+    expect(result.graph?.nodes.filter((n) => n.label === 'Child')).toHaveLength(
+      2,
+    );
+  });
+
+  it('should give a step instance shared by forEach items results of its own', async () => {
+    const shared = step<{ items: number[] }>('Item', {
+      execute: async () => 'done',
+    });
+    const root = forEach<{ items: number[] }, number>(
+      'Items',
+      (context) => context.items,
+      () => shared,
+    );
+
+    const result = await createExecutor(root, { items: [1, 2] }).start();
+
+    expect(result.steps.filter((s) => s.name === 'Item')).toHaveLength(2);
+    expect(result.steps[0].output).toEqual([
+      expect.objectContaining({ status: 'completed', output: 'done' }),
+      expect.objectContaining({ status: 'completed', output: 'done' }),
+    ]);
+  });
+
+  it('should give the copies the private fields of their class', async () => {
+    class Counter extends Step<IContext, number> {
+      readonly name = 'Counter';
+      #count = 0;
+
+      async execute() {
+        return ++this.#count;
+      }
+    }
+    class Named extends Step<IContext, string> {
+      #label: string;
+
+      constructor(readonly name: string) {
+        super();
+        this.#label = `${name}!`;
+      }
+
+      protected createCopy(): this {
+        return new Named(this.name) as this;
+      }
+
+      async execute() {
+        return this.#label;
+      }
+    }
+    const root = new Counter().enqueueAfter(new Named('After'), 0);
+
+    const first = await createExecutor(root, {}).start();
+    const second = await createExecutor(root, {}).start();
+
+    expect(first.steps.map((s) => [s.status, s.output])).toEqual([
+      ['completed', 1],
+      ['completed', 'After!'],
+    ]);
+    expect(second.steps.map((s) => s.output)).toEqual([1, 'After!']);
+  });
+
+  it('should not drain the queues of the steps returned from execute', async () => {
+    const child = step('Child', { execute: jest.fn() }).enqueueAfter(
+      step('Grandchild', { execute: jest.fn() }),
+      0,
+    );
+    const root = step('Root', { execute: async () => child });
+
+    await createExecutor(root, {}).start();
+    const result = await createExecutor(root, {}).start();
+
+    expect(result.steps.map((s) => s.name)).toEqual([
+      'Root',
+      'Child',
+      'Grandchild',
+    ]);
+  });
+});
+
+describe('outputs', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should pass the outputs to the after, immediate and parent steps', async () => {
+    const reads: unknown[] = [];
+    const load = step('Load', { execute: async () => ({ rows: 3 }) });
+    const immediate = step('Immediate', {
+      execute: async (_, { outputOf }) => {
+        reads.push(outputOf(load)?.rows);
+      },
+    });
+    const after = step('After', {
+      execute: async (_, { outputOf }) => {
+        reads.push(outputOf(root));
+      },
+    });
+    const root: Step<IContext, string> = step('Root', {
+      execute: async () => 'root',
+      final: async (_, { outputOf }) => {
+        reads.push(outputOf(after), outputOf(load));
+      },
+    }).enqueueAfter(after, 0);
+    const parent = step('Parent', { execute: async () => immediate })
+      .enqueueBefore(load, 0)
+      .enqueueAfter(root, 0);
+
+    const result = await createExecutor(parent, {}).start();
+
+    expect(reads).toEqual([3, 'root', undefined, { rows: 3 }]);
+    expect(result.steps.find((s) => s.name === 'Load')?.output).toEqual({
+      rows: 3,
+    });
+  });
+
+  it('should not treat the returned steps as an output', async () => {
+    const child = step('Child', { execute: jest.fn() });
+    const root = step('Root', { execute: async () => [child] });
+
+    const result = await createExecutor(root, {}).start();
+
+    expect(result.steps.map((s) => s.name)).toEqual(['Root', 'Child']);
+    expect(result.steps[0].output).toBeUndefined();
+  });
+
+  it('should restore the outputs when resuming', async () => {
+    const stateStore = new InMemoryStateStore();
+    let fail = true;
+    const outputs: unknown[] = [];
+    const load = step('Load', { execute: async () => 42 });
+    const after = step('After', {
+      execute: async (_, { outputOf }) => {
+        if (fail) {
+          throw new Error();
+        }
+        outputs.push(outputOf(load));
+      },
+    });
+    const build = () =>
+      step('Root', { execute: jest.fn() })
+        .enqueueBefore(load, 0)
+        .enqueueAfter(after, 0);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await createExecutor(build(), {}, {}, { stateStore }).start({
+      runId: 'run',
+    });
+    fail = false;
+    await createExecutor(build(), {}, {}, { stateStore }).resume('run');
+
+    expect(outputs).toEqual([42]);
+  });
+});
+
+describe('conditional steps', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type FlagContext = { notify: boolean; kind: string };
+
+  it('should skip a step and its queues if the predicate is not met', async () => {
+    const execute = jest.fn();
+    const notify = step<FlagContext>('Notify', {
+      when: (context) => context.notify,
+      execute,
+    }).enqueueAfter(step('Log', { execute }), 0);
+    const root = step<FlagContext>('Root', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater(() => ({ notify: false }));
+      },
+    }).enqueueAfter(notify, 0);
+    const executor = createExecutor(
+      root,
+      { notify: true, kind: 'pdf' },
+      undefined,
+      { graph: { enable: true, ids: 'path' } },
+    );
+
+    const result = await executor.start();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.status).toBe('completed');
+    expect(result.steps.map((s) => [s.name, s.status])).toEqual([
+      ['Root', 'completed'],
+      ['Notify', 'skipped'],
+    ]);
+    expect(executor.graphData.nodes[1]).toMatchObject({
+      id: '0:Root/a0.0:Notify',
+      isSkipped: true,
+    });
+  });
+
+  it('should execute the selected case of a switch and show the others as skipped', async () => {
+    const calls: string[] = [];
+    const track = (name: string) =>
+      step<FlagContext>(name, {
+        execute: async () => {
+          calls.push(name);
+        },
+      });
+    const root = switchOn<FlagContext>('Convert', (context) => context.kind, {
+      pdf: [track('Pdf'), track('Thumbnail')],
+      doc: track('Doc'),
+    });
+    const executor = createExecutor(
+      root,
+      { notify: true, kind: 'pdf' },
+      undefined,
+      { graph: { enable: true, ids: 'path' } },
+    );
+
+    const result = await executor.start();
+
+    expect(calls.sort()).toEqual(['Pdf', 'Thumbnail']);
+    expect(result.steps[0].output).toBe('pdf');
+    expect(result.steps.map((s) => s.path)).toEqual([
+      '0:Convert',
+      '0:Convert/[pdf]0:Pdf',
+      '0:Convert/[pdf]1:Thumbnail',
+    ]);
+    expect(executor.graphData.edges).toEqual(
+      expect.arrayContaining([
+        { from: '0:Convert', to: '0:Convert/[pdf]0:Pdf', label: 'pdf' },
+        { from: '0:Convert', to: '0:Convert/[doc]0:Doc', label: 'doc' },
+      ]),
+    );
+    expect(
+      executor.graphData.nodes.find((n) => n.label === 'Doc'),
+    ).toMatchObject({ isSkipped: true });
+  });
+
+  it('should execute the else case of a branch', async () => {
+    const then = step('Then', { execute: jest.fn() });
+    const otherwise = step('Else', { execute: jest.fn() });
+    const root = branch<FlagContext>(
+      'Notify?',
+      (context) => context.notify,
+      then,
+      otherwise,
+    );
+
+    const result = await createExecutor(root, {
+      notify: false,
+      kind: 'pdf',
+    }).start();
+
+    expect(result.steps.map((s) => s.name)).toEqual(['Notify?', 'Else']);
+    expect(then.execute).not.toHaveBeenCalled();
+  });
+
+  it('should show all the cases and the conditions in the plan', () => {
+    const root = branch<FlagContext>(
+      'Notify?',
+      (context) => context.notify,
+      step('Then', { when: () => true, execute: jest.fn() }),
+      step('Else', { execute: jest.fn() }),
+    );
+
+    const plan = createExecutor(root, { notify: true, kind: 'pdf' }).plan({
+      dynamic: false,
+    });
+
+    expect(plan.text).toBe(
+      [
+        'Notify? (0:Notify?)',
+        '  Then [branch then] [when] (0:Notify?/[then]0:Then)',
+        '  Else [branch else] (0:Notify?/[else]0:Else)',
+      ].join('\n'),
+    );
+    expect(plan.graph.edges).toContainEqual(
+      expect.objectContaining({ label: 'else' }),
+    );
+  });
+});
+
+describe('forEach', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type ItemsContext = { items: number[] };
+
+  const double = (fail?: number) =>
+    forEach<ItemsContext, number, number>(
+      'Double',
+      (context) => context.items,
+      (item) =>
+        step(`Item${item}`, {
+          execute: async () => {
+            if (item === fail) {
+              throw new Error(`Item ${item} failed`);
+            }
+            return item * 2;
+          },
+        }),
+      { mode: 'collectAll' },
+    );
+
+  it('should execute one step per item and gather the outputs', async () => {
+    const root = double();
+    const result = await createExecutor(root, { items: [1, 2, 3] }).start();
+
+    expect(result.status).toBe('completed');
+    expect(result.steps[0].output).toEqual([
+      { item: 1, index: 0, status: 'completed', output: 2, error: undefined },
+      { item: 2, index: 1, status: 'completed', output: 4, error: undefined },
+      { item: 3, index: 2, status: 'completed', output: 6, error: undefined },
+    ]);
+    expect(result.steps.map((s) => s.path)).toEqual([
+      '0:Double',
+      '0:Double/e0:Item1',
+      '0:Double/e1:Item2',
+      '0:Double/e2:Item3',
+    ]);
+  });
+
+  it('should limit the number of items executed at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const root = forEach<ItemsContext, number>(
+      'Limited',
+      (context) => context.items,
+      (item) =>
+        step(`Item${item}`, {
+          execute: async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+          },
+        }),
+      { concurrency: 2 },
+    );
+
+    await createExecutor(root, { items: [1, 2, 3, 4, 5] }).start();
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should collect the failures and continue in collectAll mode', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const after = step('After', { execute: jest.fn() });
+    const root = double(2).enqueueAfter(after, 0);
+
+    const result = await createExecutor(root, { items: [1, 2, 3] }).start();
+
+    expect(result.status).toBe('completed');
+    expect(after.execute).toHaveBeenCalled();
+    expect(result.errors).toEqual([
+      expect.objectContaining({ stepName: 'Item2', stopped: false }),
+    ]);
+    expect(result.steps[0].output).toEqual([
+      expect.objectContaining({ status: 'completed', output: 2 }),
+      expect.objectContaining({
+        status: 'failed',
+        error: new Error('Item 2 failed'),
+      }),
+      expect.objectContaining({ status: 'completed', output: 6 }),
+    ]);
+  });
+
+  it('should keep the index in the paths of the items with a key', async () => {
+    const execute = jest.fn();
+    const root = forEach<ItemsContext, number>(
+      'Keyed',
+      (context) => context.items,
+      () => step('Item', { key: 'item', execute }),
+    );
+    const executor = createExecutor(root, { items: [1, 2, 3] }, undefined, {
+      graph: { enable: true },
+      stateStore: new InMemoryStateStore(),
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('completed');
+    expect(execute).toHaveBeenCalledTimes(3);
+    expect(result.steps.map((s) => s.path)).toEqual([
+      '0:Keyed',
+      '0:Keyed/e0/item',
+      '0:Keyed/e1/item',
+      '0:Keyed/e2/item',
+    ]);
+    expect(executor.graphData.nodes).toHaveLength(4);
+  });
+
+  it('should stop the other items and fail in failFast mode', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const started: number[] = [];
+    const root = forEach<ItemsContext, number>(
+      'FailFast',
+      (context) => context.items,
+      (item) =>
+        step(`Item${item}`, {
+          execute: async () => {
+            started.push(item);
+            if (item === 1) {
+              throw new Error();
+            }
+          },
+        }),
+      { concurrency: 1 },
+    );
+
+    const result = await createExecutor(root, { items: [1, 2, 3] }).start();
+
+    expect(result.status).toBe('failed');
+    expect(started).toEqual([1]);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors.map((e) => [e.stepName, e.stopped])).toEqual([
+      ['Item1', false],
+      ['FailFast', true],
+    ]);
+    expect(result.errors[1].error).toEqual(
+      new ForEachItemError('FailFast', 0, result.errors[0].error),
+    );
+    expect(result.errors[1].error).not.toBe(result.errors[0].error);
+    expect(result.steps[0].output).toEqual([
+      expect.objectContaining({ status: 'failed' }),
+      expect.objectContaining({ status: 'stopped' }),
+      expect.objectContaining({ status: 'stopped' }),
+    ]);
+  });
+});
+
+describe('loops', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type PageContext = { page: number };
+
+  const nextPage = () =>
+    step<PageContext>('NextPage', {
+      execute: async (context, { contextUpdater }) => {
+        contextUpdater((c) => ({ page: c.page + 1 }));
+        return context.page;
+      },
+    });
+
+  it('should iterate while the condition is met without tripping maxRepetitions', async () => {
+    const root = loop<PageContext>('Pages', () => nextPage(), {
+      while: (context) => context.page < 15,
+      maxIterations: 20,
+    });
+    const executor = createExecutor(root, { page: 0 }, undefined, {
+      maxRepetitions: 2,
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context.page).toBe(15);
+    expect(result.steps[0].output).toEqual({ iterations: 15, output: 14 });
+    expect(result.steps[2]).toMatchObject({
+      name: 'NextPage',
+      path: '0:Pages/l1/0:NextPage',
+      ancestors: ['Pages'],
+    });
+  });
+
+  it('should repeat a step the given number of times without conditions', async () => {
+    const execute = jest.fn();
+    const root = loop('Repeat', () => step('Body', { execute }), {
+      maxIterations: 3,
+    });
+
+    const result = await createExecutor(root, {}).start();
+
+    expect(result.status).toBe('completed');
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('should poll until the condition is met, with a delay between iterations', async () => {
+    const statuses = ['pending', 'pending', 'ready'];
+    const check = step<IContext, string>('CheckExport', {
+      execute: async () => statuses.shift()!,
+    });
+    const root = pollUntil('WaitForExport', check, (_, s) => s === 'ready', {
+      delay: 5,
+    });
+    const executor = createExecutor(root, {}, undefined, {
+      graph: { enable: true, ids: 'path' },
+    });
+
+    const startedAt = Date.now();
+    const result = await executor.start();
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(8);
+    expect(result.steps[0].output).toEqual({ iterations: 3, output: 'ready' });
+    expect(executor.graphData.nodes.map((n) => n.id)).toEqual([
+      '0:WaitForExport',
+      '0:WaitForExport/l0',
+      '0:WaitForExport/l0/0:CheckExport',
+      '0:WaitForExport/l1',
+      '0:WaitForExport/l1/0:CheckExport',
+      '0:WaitForExport/l2',
+      '0:WaitForExport/l2/0:CheckExport',
+    ]);
+    expect(executor.graphData.nodes[3]).toMatchObject({
+      label: 'WaitForExport #1',
+      iteration: 1,
+    });
+  });
+
+  it('should fail if the condition is not met within the maximum iterations', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const root = pollUntil(
+      'WaitForExport',
+      step('CheckExport', { execute: async () => 'pending' }),
+      () => false,
+      { maxIterations: 2 },
+    );
+
+    const result = await createExecutor(root, {}).start();
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0].error).toBeInstanceOf(LoopLimitError);
+    expect(result.steps[0].output).toEqual({
+      iterations: 2,
+      output: 'pending',
+    });
+  });
+});
+
+describe('subflow', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type AppContext = { uploads: string[]; imported?: number };
+  type ImportContext = { documents: string[]; parsed: string[] };
+
+  const parse = (document: string) =>
+    step<ImportContext>(`Parse ${document}`, {
+      execute: async (_, { contextUpdater }) => {
+        if (document === 'broken') {
+          throw new Error('Unreadable');
+        }
+        contextUpdater((c) => ({ parsed: [...c.parsed, document] }));
+      },
+    });
+
+  const importDocuments = (options?: { mapOut?: boolean }) =>
+    subflow<AppContext, ImportContext>(
+      'ImportDocuments',
+      step<ImportContext>('ImportAll', {
+        execute: async (context) => context.documents.map(parse),
+      }),
+      {
+        mapIn: (context) => ({ documents: context.uploads, parsed: [] }),
+        mapOut:
+          options?.mapOut === false
+            ? undefined
+            : (result) => ({ imported: result.parsed.length }),
+      },
+    );
+
+  it('should run the steps with their own context and merge back the mapped result', async () => {
+    const executor = createExecutor(importDocuments(), {
+      uploads: ['a', 'b'],
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context).toEqual({ uploads: ['a', 'b'], imported: 2 });
+    expect(result.steps[0].output).toMatchObject({
+      status: 'completed',
+      context: { documents: ['a', 'b'], parsed: ['a', 'b'] },
+    });
+  });
+
+  it('should leave the parent context untouched without mapOut', async () => {
+    const executor = createExecutor(importDocuments({ mapOut: false }), {
+      uploads: ['a'],
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context).toEqual({ uploads: ['a'] });
+  });
+
+  it('should fail with an ExecutionError when the nested execution fails', async () => {
+    const executor = createExecutor(importDocuments(), {
+      uploads: ['a', 'broken'],
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('failed');
+    expect(result.context.imported).toBeUndefined();
+    expect(result.errors[0].error).toBeInstanceOf(ExecutionError);
+    expect(
+      (result.errors[0].error as ExecutionError).result.errors[0],
+    ).toMatchObject({ stepName: 'Parse broken' });
+  });
+
+  it('should stop the parent execution when the nested execution is stopped', async () => {
+    const after = step<AppContext>('After', { execute: jest.fn() });
+    const root = subflow<AppContext, ImportContext>(
+      'ImportDocuments',
+      step<ImportContext>('Stop', {
+        execute: async (_, { contextUpdater, stopImmediate }) => {
+          contextUpdater(() => ({ parsed: ['a'] }));
+          stopImmediate();
+        },
+      }),
+      {
+        mapIn: (context) => ({ documents: context.uploads, parsed: [] }),
+        mapOut: (result) => ({ imported: result.parsed.length }),
+      },
+    ).enqueueAfter(after, 0);
+
+    const result = await createExecutor(root, { uploads: ['a'] }).start();
+
+    expect(result.status).toBe('stopped');
+    expect(result.context).toEqual({ uploads: ['a'] });
+    expect(after.execute).not.toHaveBeenCalled();
+    expect(result.steps[0].output).toMatchObject({ status: 'stopped' });
+  });
+
+  it('should embed the nested graph as a cluster of the subflow step', async () => {
+    const executor = createExecutor(
+      importDocuments(),
+      { uploads: ['a'] },
+      undefined,
+      {
+        graph: { enable: true, ids: 'path' },
+      },
+    );
+
+    const result = await executor.start();
+    const nodes = result.graph!.nodes;
+
+    expect(
+      nodes.find((n) => n.id === '0:ImportDocuments/0:ImportAll'),
+    ).toMatchObject({ label: 'ImportAll', cluster: '0:ImportDocuments' });
+    expect(
+      nodes.find((n) => n.id === '0:ImportDocuments/0:ImportAll/i0:Parse a'),
+    ).toMatchObject({ label: 'Parse a', cluster: '0:ImportDocuments' });
+    expect(result.graph!.edges).toContainEqual({
+      from: '0:ImportDocuments',
+      to: '0:ImportDocuments/0:ImportAll',
+    });
+    expect(executor.exportGraph('dot')).toContain(
+      'subgraph "cluster_0:ImportDocuments" {',
+    );
+  });
+});
+
+describe('middleware', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should wrap every stage of every step, the first middleware being the outermost', async () => {
+    const calls: string[] = [];
+    const child = step('Child', { execute: async () => {} });
+    const root = step('Root', { execute: async () => [child] });
+    const executor = createExecutor(root, {}, undefined, {
+      middleware: [
+        async (ctx, next) => {
+          calls.push(`outer ${ctx.stepName}:${ctx.stage}`);
+          return next();
+        },
+      ],
+    });
+    executor.use(async (ctx, next) => {
+      calls.push(`inner ${ctx.stepName}:${ctx.stage}`);
+      return next();
+    });
+
+    await executor.start();
+
+    expect(calls).toEqual([
+      'outer Root:prepare',
+      'inner Root:prepare',
+      'outer Root:execute',
+      'inner Root:execute',
+      'outer Child:prepare',
+      'inner Child:prepare',
+      'outer Child:execute',
+      'inner Child:execute',
+      'outer Child:final',
+      'inner Child:final',
+      'outer Root:final',
+      'inner Root:final',
+    ]);
+  });
+
+  it('should pass the step information, the attempt and the context', async () => {
+    const contexts: unknown[] = [];
+    let attempts = 0;
+    const child = step('Child', {
+      execute: async () => {
+        if (++attempts < 2) {
+          throw new Error('Flaky');
+        }
+      },
+      retry: { maxAttempts: 2 },
+    });
+    const root = step('Root', { execute: async () => [child] });
+    const executor = createExecutor(root, { value: 1 });
+    executor.use(async (ctx, next) => {
+      if (ctx.stage === 'execute') {
+        contexts.push({ ...ctx, handlers: undefined });
+      }
+      return next();
+    });
+
+    await executor.start();
+
+    expect(contexts).toEqual([
+      expect.objectContaining({ stepName: 'Root', attempt: 1 }),
+      {
+        stepName: 'Child',
+        stepId: expect.any(String),
+        ancestors: ['Root'],
+        stage: 'execute',
+        attempt: 1,
+        context: { value: 1 },
+        handlers: undefined,
+      },
+      expect.objectContaining({ stepName: 'Child', attempt: 2 }),
+    ]);
+  });
+
+  it('should fail the stage when a middleware throws, and wrap rollbacks', async () => {
+    const rollback = jest.fn();
+    const stages: string[] = [];
+    const root = step('Root', {
+      execute: async () => [
+        step('Charge', { execute: async () => {}, rollback }),
+        step('Ship', { execute: async () => {} }),
+      ],
+    });
+    const executor = createExecutor(root, {}, undefined, { saga: true });
+    const remove = executor.use(async (ctx, next) => {
+      stages.push(`${ctx.stepName}:${ctx.stage}`);
+      if (ctx.stepName === 'Ship' && ctx.stage === 'execute') {
+        throw new Error('Unauthorized');
+      }
+      return next();
+    });
+
+    const result = await executor.start();
+    remove();
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[0]).toMatchObject({ stepName: 'Ship' });
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(stages).toContain('Charge:rollback');
+  });
+
+  it('should pass the attempt of a rollback retried by its error handler', async () => {
+    const attempts: number[] = [];
+    const rollback = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Locked'))
+      .mockResolvedValue(undefined);
+    const root = step('Root', {
+      execute: async () => {
+        throw new Error('Failed');
+      },
+      rollback,
+    });
+    const executor = createExecutor(root, {}, { rollback: () => 'retry' });
+    executor.use(async (ctx, next) => {
+      if (ctx.stage === 'rollback') {
+        attempts.push(ctx.attempt);
+      }
+      return next();
+    });
+
+    await executor.start();
+
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  it('should skip the stage when next is not called, and use the value returned instead', async () => {
+    const execute = jest.fn();
+    const root = step('Root', { execute });
+    const executor = createExecutor(root, {});
+    executor.use(async () => 'cached');
+
+    const result = await executor.start();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.steps[0].output).toBe('cached');
+  });
+
+  it('should stop calling a removed middleware', async () => {
+    const middleware = jest.fn((_, next: () => Promise<unknown>) => next());
+    const executor = createExecutor(
+      step('Root', { execute: async () => {} }),
+      {},
+    );
+    executor.use(middleware)();
+
+    await executor.start();
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+});
+
+describe('error decisions', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type ImportContext = { imported: string[] };
+
+  const importDocument = (document: string, rollback = jest.fn()) =>
+    step<ImportContext>(`Import ${document}`, {
+      execute: async (_, { contextUpdater }) => {
+        if (document === 'broken') {
+          throw new Error('Unreadable');
+        }
+        contextUpdater((c) => ({ imported: [...c.imported, document] }));
+        return [
+          step<ImportContext>(`Index ${document}`, { execute: jest.fn() }),
+        ];
+      },
+      rollback,
+    });
+
+  it('should pass the details of the failure to the error handler', async () => {
+    const execute = jest.fn().mockReturnValue(false);
+    const failing = importDocument('broken');
+    const root = step<ImportContext>('Import', {
+      execute: async () => [failing],
+    });
+
+    await createExecutor(root, { imported: [] }, { execute }).start();
+
+    expect(execute).toHaveBeenCalledWith(expect.any(Error), 'Import broken', {
+      step: expect.objectContaining({ name: 'Import broken' }),
+      stepId: expect.any(String),
+      stage: 'execute',
+      ancestors: ['Import'],
+      attempt: 1,
+      context: { imported: [] },
+    });
+  });
+
+  it('should skip the subtree of the failed step and keep going on skipSubtree', async () => {
+    const root = step<ImportContext>('Import', {
+      execute: async () => ['a', 'broken', 'b'].map((d) => importDocument(d)),
+    });
+
+    const result = await createExecutor(
+      root,
+      { imported: [] },
+      { execute: () => 'skipSubtree' },
+    ).start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context.imported).toEqual(['a', 'b']);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ stepName: 'Import broken', stopped: false }),
+    ]);
+    expect(result.steps.find((s) => s.name === 'Import broken')?.status).toBe(
+      'skipped',
+    );
+    expect(result.steps.map((s) => s.name)).not.toContain('Index broken');
+  });
+
+  it('should run the failed stage again on retry', async () => {
+    let attempts = 0;
+    const root = step('Flaky', {
+      execute: async () => {
+        if (++attempts < 3) {
+          throw new Error('Flaky');
+        }
+      },
+    });
+    const execute = jest.fn((_: unknown, __: string, { attempt }) =>
+      attempt < 3 ? 'retry' : 'stop',
+    );
+
+    const result = await createExecutor(root, {}, { execute }).start();
+
+    expect(result.status).toBe('completed');
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls.map(([, , d]) => d.attempt)).toEqual([1, 2]);
+  });
+
+  it('should roll back the failed step and keep going on rollbackAndContinue', async () => {
+    const rollback = jest.fn();
+    const root = step<ImportContext>('Import', {
+      execute: async () => [importDocument('broken', rollback)],
+    });
+
+    const result = await createExecutor(
+      root,
+      { imported: [] },
+      { execute: () => 'rollbackAndContinue' },
+    ).start();
+
+    expect(result.status).toBe('completed');
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(result.steps.find((s) => s.name === 'Import broken')?.status).toBe(
+      'failed',
+    );
+    expect(result.steps.find((s) => s.name === 'Import')?.status).toBe(
+      'completed',
+    );
+  });
+
+  it('should execute the returned step in place of the failed one', async () => {
+    const fallback = step<ImportContext>('Quarantine', {
+      execute: async (_, { contextUpdater }) =>
+        contextUpdater((c) => ({ imported: [...c.imported, 'quarantined'] })),
+    });
+    const root = step<ImportContext>('Import', {
+      execute: async () => [importDocument('broken')],
+    });
+    const executor = createExecutor(
+      root,
+      { imported: [] },
+      { execute: () => fallback },
+      { graph: { enable: true, ids: 'path' } },
+    );
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('completed');
+    expect(result.context.imported).toEqual(['quarantined']);
+    expect(result.steps.find((s) => s.name === 'Quarantine')).toMatchObject({
+      path: '0:Import/i0:Import broken/r:Quarantine',
+      ancestors: ['Import', 'Import broken'],
+      status: 'completed',
+    });
+    expect(executor.graphData.edges).toContainEqual({
+      from: '0:Import/i0:Import broken',
+      to: '0:Import/i0:Import broken/r:Quarantine',
+      label: 'replacement',
+    });
+  });
+
+  it('should handle a failing rollback with the rollback error handler', async () => {
+    const rollback = jest.fn().mockRejectedValue(new Error('Stuck'));
+    const errorHandlers = {
+      execute: jest.fn().mockReturnValue(true),
+      rollback: jest.fn().mockReturnValue(false),
+    };
+    const root = step<ImportContext>('Import', {
+      execute: async () => [importDocument('broken', rollback)],
+    });
+
+    const result = await createExecutor(
+      root,
+      { imported: [] },
+      errorHandlers,
+    ).start();
+
+    expect(result.status).toBe('failed');
+    expect(errorHandlers.rollback).toHaveBeenCalledWith(
+      new Error('Stuck'),
+      'Import broken',
+      expect.objectContaining({ stage: 'rollback' }),
+    );
+    expect(result.errors.map((e) => e.stage)).toEqual(['execute', 'rollback']);
+  });
+
+  it('should not reject when a rollback fails without a rollback error handler', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const rollback = jest.fn().mockRejectedValue(new Error('Stuck'));
+    const root = importDocument('broken', rollback);
+
+    const result = await createExecutor(root, { imported: [] }).start();
+
+    expect(result.status).toBe('failed');
+    expect(result.errors[1]).toMatchObject({
+      stage: 'rollback',
+      stopped: true,
+    });
+  });
+});
+
+describe('context validation', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type CounterContext = { count: number; label?: string };
+
+  const validate = (context: Readonly<CounterContext>) => {
+    if (context.count < 0) {
+      throw new Error('count must not be negative');
+    }
+
+    return { label: 'default', ...context };
+  };
+
+  it('should validate the initial context and use the validated one', async () => {
+    expect(() =>
+      createExecutor(stepA, { count: -1 }, undefined, { validate }),
+    ).toThrow(ContextValidationError);
+
+    const executor = createExecutor(
+      step<CounterContext>('Count', { execute: async () => {} }),
+      { count: 0 },
+      undefined,
+      { validate },
+    );
+
+    const result = await executor.start();
+
+    expect(result.context).toEqual({ count: 0, label: 'default' });
+  });
+
+  it('should fail the stage and keep the context when an update is invalid', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+    const root = step<CounterContext>('Decrement', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater((c) => ({ count: c.count - 1 }));
+      },
+    });
+    const executor = createExecutor(root, { count: 0 }, errorHandlers, {
+      validate,
+    });
+
+    const result = await executor.start();
+
+    expect(result.status).toBe('failed');
+    expect(result.context.count).toBe(0);
+    const [error] = errorHandlers.execute.mock.calls[0];
+    expect(error).toBeInstanceOf(ContextValidationError);
+    expect(error).toMatchObject({
+      stepName: 'Decrement',
+      cause: new Error('count must not be negative'),
+    });
+  });
+
+  it('should reject the updates of undeclared keys', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+    const root = step<CounterContext>('Label', {
+      writes: ['count'],
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater(() => ({ count: 1, label: 'clobbered' }));
+      },
+    });
+
+    const result = await createExecutor(
+      root,
+      { count: 0 },
+      errorHandlers,
+    ).start();
+
+    expect(result.context).toEqual({ count: 0 });
+    const [error] = errorHandlers.execute.mock.calls[0];
+    expect(error).toBeInstanceOf(UndeclaredWriteError);
+    expect(error).toMatchObject({ stepName: 'Label', keys: ['label'] });
+  });
+
+  it('should pass only the declared keys to the stages of a step', async () => {
+    const execute = jest.fn();
+    const root = step<CounterContext>('Read', { reads: ['count'], execute });
+
+    await createExecutor(root, { count: 2, label: 'secret' }).start();
+
+    expect(execute).toHaveBeenCalledWith({ count: 2 }, expect.anything());
+  });
+
+  it('should report the changed keys with the context updates', async () => {
+    const listener = jest.fn();
+    const root = step<CounterContext>('Increment', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater((c) => ({ count: c.count + 1, label: c.label }));
+      },
+    });
+    const executor = createExecutor(root, { count: 0, label: 'a' });
+    executor.on('context:updated', listener);
+
+    await executor.start();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ stepName: 'Increment', changed: ['count'] }),
+    );
+  });
+});
+
+describe('context merging', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type CountContext = { count: number; logs: string[] };
+  type Write = (write: () => void) => Promise<void>;
+
+  // Reads the count from its stage context, which is stale once the other step updated it
+  const increment = (name: string, write: Write) =>
+    step<CountContext>(name, {
+      execute: (context, { contextUpdater }) =>
+        write(() =>
+          contextUpdater(() => ({ count: context.count + 1, logs: [name] })),
+        ),
+    });
+
+  // Runs the steps A and B in parallel. Both get their context before A writes, and B writes after A
+  const parallel = (
+    create: (name: string, write: Write) => Step<CountContext> = increment,
+  ) => {
+    let started!: () => void;
+    let written!: () => void;
+    const isStarted = new Promise<void>((resolve) => (started = resolve));
+    const isWritten = new Promise<void>((resolve) => (written = resolve));
+
+    return step<CountContext>('Root', {
+      execute: async () => [
+        create('A', async (write) => {
+          await isStarted;
+          write();
+          written();
+        }),
+        create('B', async (write) => {
+          started();
+          await isWritten;
+          write();
+        }),
+      ],
+    });
+  };
+
+  it('should record the writes based on stale reads, the last writer winning', async () => {
+    const result = await createExecutor(parallel(), {
+      count: 0,
+      logs: [],
+    }).start();
+
+    expect(result.context).toEqual({ count: 1, logs: ['B'] });
+    expect(result.conflicts).toEqual([
+      {
+        key: 'count',
+        stepName: 'B',
+        stepId: expect.any(String),
+        read: 0,
+        current: 1,
+        value: 1,
+        strategy: 'replace',
+      },
+      expect.objectContaining({ key: 'logs', stepName: 'B' }),
+    ]);
+  });
+
+  it('should not merge the keys a spread updater passes through', async () => {
+    const root = step<CountContext & { other?: number }>('Spread', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater((c) => ({ ...c, other: 1 }));
+      },
+    });
+
+    const result = await createExecutor(
+      root,
+      { count: 2, logs: ['x'] },
+      undefined,
+      { merge: { logs: 'append', count: 'sum' } },
+    ).start();
+
+    expect(result.context).toEqual({ count: 2, logs: ['x'], other: 1 });
+  });
+
+  it('should merge only the keys an updater changing its argument changed', async () => {
+    const root = step<CountContext>('Mutate', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater((c) => {
+          (c as CountContext).count = c.count + 1;
+          return c;
+        });
+      },
+    });
+
+    const result = await createExecutor(
+      root,
+      { count: 2, logs: ['x'] },
+      undefined,
+      { merge: { logs: 'append' } },
+    ).start();
+
+    expect(result.context).toEqual({ count: 3, logs: ['x'] });
+  });
+
+  it('should merge the updates with the strategies of the keys', async () => {
+    const root = parallel((name, write) =>
+      step<CountContext>(name, {
+        execute: (_, { contextUpdater }) =>
+          write(() => contextUpdater(() => ({ count: 1, logs: [name] }))),
+      }),
+    );
+
+    const result = await createExecutor(
+      root,
+      { count: 0, logs: [] },
+      undefined,
+      { merge: { count: 'sum', logs: 'append' } },
+    ).start();
+
+    expect(result.context).toEqual({ count: 2, logs: ['A', 'B'] });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should not record the conflicts of a rejected update', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(false) };
+
+    const result = await createExecutor(
+      parallel(),
+      { count: 0, logs: [] },
+      errorHandlers,
+      {
+        validate: (context) => {
+          if (context.logs.includes('B')) {
+            throw new Error('B is not allowed');
+          }
+          return context;
+        },
+      },
+    ).start();
+
+    expect(errorHandlers.execute).toHaveBeenCalledTimes(1);
+    expect(result.context).toEqual({ count: 1, logs: ['A'] });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should not report a conflict when the updater reads the current value', async () => {
+    const root = parallel((name, write) =>
+      step<CountContext>(name, {
+        execute: (_, { contextUpdater }) =>
+          write(() => contextUpdater((c) => ({ count: c.count + 1 }))),
+      }),
+    );
+
+    const result = await createExecutor(root, { count: 0, logs: [] }).start();
+
+    expect(result.context.count).toBe(2);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should fail the stage of a stale write with the error strategy', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(false) };
+
+    const result = await createExecutor(
+      parallel(),
+      { count: 0, logs: [] },
+      errorHandlers,
+      { merge: { count: 'error' } },
+    ).start();
+
+    expect(result.context).toEqual({ count: 1, logs: ['A'] });
+    const [error, stepName] = errorHandlers.execute.mock.calls[0];
+    expect(stepName).toBe('B');
+    expect(error).toBeInstanceOf(ContextConflictError);
+    expect(error.conflict).toMatchObject({ key: 'count', strategy: 'error' });
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('context history', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type ReviewContext = { status: string; reviewer?: string };
+
+  const review = step<ReviewContext>('Review', {
+    execute: async (_, { contextUpdater }) => {
+      contextUpdater(() => ({ status: 'reviewing', reviewer: 'ops' }));
+      contextUpdater(() => ({ status: 'approved' }));
+    },
+  });
+
+  it('should record every version of the context with its cause', async () => {
+    const executor = createExecutor(review, { status: 'new' }, undefined, {
+      history: true,
+    });
+
+    await executor.start();
+
+    expect(executor.contextHistory).toEqual([
+      {
+        version: 0,
+        context: { status: 'new' },
+        changes: [],
+        timestamp: expect.any(Number),
+      },
+      {
+        version: 1,
+        context: { status: 'reviewing', reviewer: 'ops' },
+        stepName: 'Review',
+        stepId: expect.any(String),
+        stage: 'execute',
+        changes: [
+          { key: 'status', previous: 'new', value: 'reviewing' },
+          { key: 'reviewer', previous: undefined, value: 'ops' },
+        ],
+        timestamp: expect.any(Number),
+      },
+      expect.objectContaining({
+        version: 2,
+        context: { status: 'approved', reviewer: 'ops' },
+        changes: [{ key: 'status', previous: 'reviewing', value: 'approved' }],
+      }),
+    ]);
+  });
+
+  it('should combine the changes of a step into a single diff', async () => {
+    const executor = createExecutor(review, { status: 'new' }, undefined, {
+      history: true,
+    });
+
+    await executor.start();
+
+    expect(executor.contextDiff(review)).toEqual([
+      { key: 'status', previous: 'new', value: 'approved' },
+      { key: 'reviewer', previous: undefined, value: 'ops' },
+    ]);
+  });
+
+  it('should export the history as JSON', async () => {
+    const executor = createExecutor(review, { status: 'new' }, undefined, {
+      history: true,
+    });
+
+    await executor.start();
+
+    const exported = JSON.parse(executor.exportContextHistory());
+    expect(exported).toHaveLength(3);
+    expect(exported[2]).toMatchObject({
+      version: 2,
+      stepName: 'Review',
+      context: { status: 'approved', reviewer: 'ops' },
+    });
+  });
+
+  it('should not record the history unless enabled', async () => {
+    const executor = createExecutor(review, { status: 'new' });
+
+    await executor.start();
+
+    expect(executor.contextHistory).toEqual([]);
+    expect(executor.contextDiff(review)).toEqual([]);
+  });
+});
+
+describe('deep immutability', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type BatchContext = {
+    batch: { name: string; documents: { id: number; title: string }[] };
+  };
+
+  const initial = (): BatchContext => ({
+    batch: { name: 'b1', documents: [{ id: 1, title: 'a' }] },
+  });
+
+  it('should prevent the steps from changing nested values', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+    const root = step<BatchContext>('Mutate', {
+      execute: async (context) => {
+        (context.batch.documents as { id: number }[]).push({ id: 2 });
+      },
+    });
+
+    const result = await createExecutor(root, initial(), errorHandlers, {
+      deepFreeze: true,
+    }).start();
+
+    expect(result.status).toBe('failed');
+    expect(errorHandlers.execute.mock.calls[0][0]).toBeInstanceOf(TypeError);
+    expect(result.context.batch.documents).toHaveLength(1);
+  });
+
+  it('should set nested values by path and share the rest of the context', async () => {
+    const context = initial();
+    const root = step<BatchContext>('Rename', {
+      execute: async (_, { contextUpdater }) => {
+        contextUpdater.set('batch.documents.0.title', 'renamed');
+        contextUpdater.set(['batch', 'name'], 'b2');
+      },
+    });
+
+    const result = await createExecutor(root, context, undefined, {
+      deepFreeze: true,
+    }).start();
+
+    expect(result.context).toEqual({
+      batch: { name: 'b2', documents: [{ id: 1, title: 'renamed' }] },
+    });
+    expect(Object.isFrozen(result.context.batch.documents[0])).toBe(true);
+    expect(context.batch.documents[0].title).toBe('a');
+  });
+});
+
+describe('resources', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  type DocumentsContext = { documents: number[] };
+
+  it('should not run more steps than the units of a pool allow', async () => {
+    const running = new Map<string, number>();
+    const max = new Map<string, number>();
+    const root = forEach<DocumentsContext, number>(
+      'Documents',
+      (context) => context.documents,
+      (item) =>
+        step(`Save${item}`, {
+          resources: { pools: { db: 2 } },
+          execute: async () => {
+            running.set('db', (running.get('db') ?? 0) + 1);
+            max.set('db', Math.max(max.get('db') ?? 0, running.get('db')!));
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running.set('db', running.get('db')! - 1);
+          },
+        }),
+    );
+
+    const result = await createExecutor(
+      root,
+      { documents: [1, 2, 3, 4, 5] },
+      undefined,
+      { concurrency: { limit: 10, pools: { db: 4 } } },
+    ).start();
+
+    expect(result.status).toBe('completed');
+    expect(max.get('db')).toBe(2);
+  });
+
+  it('should run the steps with the same key one at a time', async () => {
+    const running = new Map<string, number>();
+    const max = new Map<string, number>();
+    const root = forEach<DocumentsContext, number>(
+      'Documents',
+      (context) => context.documents,
+      (item) =>
+        step<DocumentsContext>(`Save${item}`, {
+          resources: { keys: () => [`document:${item % 2}`] },
+          execute: async () => {
+            const key = `document:${item % 2}`;
+            running.set(key, (running.get(key) ?? 0) + 1);
+            max.set(key, Math.max(max.get(key) ?? 0, running.get(key)!));
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running.set(key, running.get(key)! - 1);
+          },
+        }),
+    );
+
+    await createExecutor(root, { documents: [1, 2, 3, 4] }, undefined, {
+      concurrency: { limit: 10 },
+    }).start();
+
+    expect(max.get('document:0')).toBe(1);
+    expect(max.get('document:1')).toBe(1);
+  });
+
+  it('should handle failing to acquire the resources like a failed execute', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+    const execute = jest.fn();
+    const root = step<DocumentsContext>('Save', {
+      resources: { pools: { cache: 1 } },
+      execute,
+    });
+
+    const result = await createExecutor(
+      root,
+      { documents: [] },
+      errorHandlers,
+    ).start();
+
+    expect(result.status).toBe('failed');
+    expect(execute).not.toHaveBeenCalled();
+    expect(errorHandlers.execute).toHaveBeenCalledWith(
+      new Error('Unknown resource pool "cache".'),
+      'Save',
+      expect.objectContaining({ stage: 'execute' }),
+    );
+  });
+});
+
+describe('priorities', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  // Waits in prepare, which holds no slot, so the slow step is the first to take the slot
+  const tracked = (name: string, executed: string[], priority?: number) =>
+    step(name, {
+      priority,
+      prepare: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+      },
+      execute: async () => {
+        executed.push(name);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      },
+    });
+
+  const slow = (executed: string[]) =>
+    step('Slow', {
+      execute: async () => {
+        executed.push('Slow');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      },
+    });
+
+  it('should grant the slots to the steps with lower priority values first', async () => {
+    const executed: string[] = [];
+    const root = step('Root', { execute: jest.fn() }).enqueueAfter(
+      [
+        slow(executed),
+        tracked('Low', executed),
+        tracked('Urgent', executed, -1),
+      ],
+      0,
+    );
+
+    await createExecutor(root, {}, undefined, {
+      concurrency: { limit: 1 },
+    }).start();
+
+    expect(executed).toEqual(['Slow', 'Urgent', 'Low']);
+  });
+
+  it('should let the steps wait with the priority they were enqueued with', async () => {
+    const executed: string[] = [];
+    const low = step('Low', { execute: jest.fn() }).enqueueBefore(
+      tracked('LowChild', executed),
+      2,
+    );
+    const high = step('High', { execute: jest.fn() }).enqueueBefore(
+      tracked('HighChild', executed),
+      1,
+    );
+
+    await createExecutor(
+      [tracked('Slow', executed), low, high],
+      {},
+      undefined,
+      {
+        concurrency: { limit: 1 },
+      },
+    ).start();
+
+    expect(executed.slice(0, 3)).toEqual(['Slow', 'HighChild', 'LowChild']);
+  });
+});
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const limited = (called: number[], rateLimit: boolean | string) =>
+    step('Call', {
+      rateLimit,
+      execute: async () => {
+        called.push(Date.now());
+      },
+    });
+
+  it('should throttle the executes beyond the burst', async () => {
+    const called: number[] = [];
+    const throttled = jest.fn();
+    const root = step('Root', { execute: jest.fn() }).enqueueAfter(
+      [1, 2, 3, 4].map(() => limited(called, true)),
+      0,
+    );
+    const executor = createExecutor(root, {}, undefined, {
+      concurrency: { limit: 10 },
+      rateLimit: { rate: 2, burst: 2 },
+    });
+    executor.on('step:throttled', throttled);
+
+    const start = Date.now();
+    const promise = executor.start();
+    await jest.advanceTimersByTimeAsync(1_000);
+    const result = await promise;
+
+    expect(called.map((t) => t - start)).toEqual([0, 0, 500, 1000]);
+    expect(throttled.mock.calls.map(([e]) => e.wait)).toEqual([500, 1000]);
+    expect(result.steps.map((s) => s.throttled)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      500,
+      1000,
+    ]);
+  });
+
+  it('should report the throttling in the execute end event', async () => {
+    const ended = jest.fn();
+    const root = step('Root', { execute: jest.fn() }).enqueueAfter(
+      [limited([], 'api'), limited([], 'api')],
+      0,
+    );
+    const executor = createExecutor(root, {}, undefined, {
+      rateLimiters: { api: { rate: 1, interval: 200 } },
+    });
+    const throttled = jest.fn();
+    executor.on('step:execute:end', ended);
+    executor.on('step:throttled', throttled);
+
+    const promise = executor.start();
+    await jest.advanceTimersByTimeAsync(200);
+    await promise;
+
+    expect(throttled).toHaveBeenCalledWith(
+      expect.objectContaining({ stepName: 'Call', limiter: 'api', wait: 200 }),
+    );
+    expect(ended.mock.calls.map(([e]) => [e.throttled, e.duration])).toEqual([
+      [undefined, 0],
+      [0, 0],
+      [200, 0],
+    ]);
+  });
+
+  it('should not hold a concurrency slot while waiting for a token', async () => {
+    let unthrottledAt: number | undefined;
+    const root = step('Root', { execute: jest.fn() }).enqueueAfter(
+      [
+        limited([], true),
+        limited([], true),
+        step('Unthrottled', {
+          execute: async () => {
+            unthrottledAt = Date.now();
+          },
+        }),
+      ],
+      0,
+    );
+
+    const start = Date.now();
+    const promise = createExecutor(root, {}, undefined, {
+      concurrency: { limit: 2 },
+      rateLimit: { rate: 1, interval: 300 },
+    }).start();
+    await jest.advanceTimersByTimeAsync(300);
+    await promise;
+
+    expect(unthrottledAt! - start).toBeLessThan(300);
+  });
+
+  it('should handle an unknown rate limiter like a failed execute', async () => {
+    const errorHandlers = { execute: jest.fn().mockReturnValue(true) };
+    const root = limited([], 'unknown');
+
+    const result = await createExecutor(root, {}, errorHandlers).start();
+
+    expect(result.status).toBe('failed');
+    expect(errorHandlers.execute).toHaveBeenCalledWith(
+      new Error('Unknown rate limiter "unknown".'),
+      'Call',
+      expect.objectContaining({ stage: 'execute' }),
+    );
+  });
+});
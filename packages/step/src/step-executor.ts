@@ -1,39 +1,465 @@
+import { randomUUID } from 'crypto';
+import {
+  ContextConflictError,
+  ContextValidationError,
+  ExecutionError,
+  ForEachItemError,
+  LoopLimitError,
+  StepTimeoutError,
+  UndeclaredWriteError,
+} from './errors';
 import {
   ConcurrencyManager,
   ConcurrencyManagerOptions,
+  EventEmitter,
+  ExecutionState,
   Graph,
   GraphData,
+  GraphEdge,
+  GraphFormat,
+  GraphNode,
   GraphOptions,
+  HtmlExportOptions,
+  Listener,
+  RateLimiter,
+  RateLimiterOptions,
+  ResourceRequest,
+  backoffDelay,
+  sleep,
+  StateStore,
+  StepCheckpoint,
+  withTimeout,
 } from './helpers';
-import { IContext, IHandlers, ImmutableContext } from './immutable-context';
 import {
+  createContextUpdater,
+  IContext,
+  IHandlers,
+  ImmutableContext,
+  ImmutableContextOptions,
+} from './immutable-context';
+import {
+  ContextConflict,
+  isCommutative,
+  MergeStrategies,
+  MergeStrategy,
+  mergeValue,
+} from './merge';
+import { Middleware, MiddlewareStage, runMiddleware } from './middleware';
+import {
+  cloneSteps,
+  afterPriority,
+  beforePriority,
   dequeueAfter,
   dequeueBefore,
   isAfterEmpty,
   isBeforeEmpty,
+  peekAfter,
+  peekBefore,
+  RetryPolicy,
   Step,
   stepId,
+  StepStage,
+  StepTimeout,
 } from './step';
+import { StepEvent, StepExecutorEvents } from './step-events';
+import {
+  BranchStep,
+  ForEachItemResult,
+  ForEachStep,
+  LoopResult,
+  LoopStep,
+  SubflowStep,
+} from './step-factory';
+import { ContextValidator } from './validation';
+
+const STAGES: StepStage[] = ['prepare', 'execute', 'final'];
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * Tells the steps returned from `execute` apart from an output.
+ *
+ * @param result - The value returned from `execute`.
+ * @returns True if the value is a step or a non-empty array of steps.
+ */
+function isSteps<C extends IContext>(
+  result: unknown,
+): result is Step<C> | Step<C>[] {
+  if (Array.isArray(result)) {
+    return result.length > 0 && result.every((r) => r instanceof Step);
+  }
+
+  return result instanceof Step;
+}
+
+/**
+ * What the StepExecutor does after a stage of a step failed:
+ * - `stop`: Stops the execution, or only the forEach item the step belongs to. Same as returning true.
+ * - `continue`: Ignores the error and goes on with the step. Same as returning false.
+ * - `retry`: Runs the failed stage again.
+ * - `skipSubtree`: Marks the step as skipped. Its remaining stages and the steps it queued are not executed.
+ * - `rollbackAndContinue`: Rolls back the step, then goes on without its remaining stages and the steps it queued.
+ * - A step: Executed in place of the remaining stages of the failed step and the steps it queued.
+ *
+ * Rollback failures can only be stopped, continued or retried, the other decisions continue.
+ */
+export type ErrorDecision<C extends IContext = IContext> =
+  | 'stop'
+  | 'continue'
+  | 'retry'
+  | 'skipSubtree'
+  | 'rollbackAndContinue'
+  | Step<C>;
 
-type StepStage = 'execute' | 'prepare' | 'final';
-type ErrorHandler = (error: unknown, stepName: string) => boolean;
+/**
+ * Everything an error handler knows about the failure.
+ */
+export interface ErrorDetails<C extends IContext = IContext> {
+  step: Step<C>;
+  stepId: string;
+  stage: StepStage | 'rollback';
+  ancestors?: string[];
+  /**
+   * Attempts of the stage so far, including the retries of the retry policy and the `retry` decisions.
+   */
+  attempt: number;
+  /**
+   * The context at the time of the failure.
+   */
+  context: Readonly<C>;
+}
 
-interface ErrorHandlers {
-  execute?: ErrorHandler;
-  prepare?: ErrorHandler;
-  final?: ErrorHandler;
+/**
+ * A decision that ends the handling of an error, as `retry` runs the stage again.
+ */
+type SettledDecision<C extends IContext> = Exclude<ErrorDecision<C>, 'retry'>;
+
+type ErrorHandler<C extends IContext> = (
+  error: unknown,
+  stepName: string,
+  details: ErrorDetails<C>,
+) => boolean | ErrorDecision<C>;
+
+export interface ErrorHandlers<C extends IContext = IContext> {
+  execute?: ErrorHandler<C>;
+  prepare?: ErrorHandler<C>;
+  final?: ErrorHandler<C>;
+  rollback?: ErrorHandler<C>;
 }
 
-interface Options {
+export interface Options<C extends IContext = IContext> {
   graph?: GraphOptions;
   maxRepetitions?: number;
   concurrency?: ConcurrencyManagerOptions;
+  /**
+   * Rate limiter shared by the steps with `rateLimit: true`.
+   */
+  rateLimit?: RateLimiterOptions;
+  /**
+   * Named rate limiters, used by the steps that set the name of one as their `rateLimit`.
+   */
+  rateLimiters?: Record<string, RateLimiterOptions>;
+  /**
+   * Default retry policy for all the steps. A step can override it with its own `retry` policy.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Default timeout for the stages of all the steps. A step can override it with its own `timeout`.
+   */
+  timeout?: StepTimeout;
+  /**
+   * Maximum time in milliseconds the whole execution is allowed to run.
+   * When it is reached, the running stages fail with a `StepTimeoutError` and no new steps are started.
+   */
+  deadline?: number;
+  /**
+   * Enables saga mode. When the execution is stopped, `rollback` is called on every step
+   * whose `execute` succeeded, in reverse completion order.
+   */
+  saga?: boolean;
+  /**
+   * If true, `start()` rejects with an `ExecutionError` when the execution failed,
+   * instead of resolving with the `failed` status.
+   */
+  rejectOnError?: boolean;
+  /**
+   * Persists the progress of the execution, so it can be resumed with `resume(runId)`.
+   */
+  stateStore?: StateStore;
+  /**
+   * Wrap every `prepare`, `execute`, `final` and `rollback` call, the first one being the outermost.
+   * More can be added with `use()`.
+   */
+  middleware?: Middleware<C>[];
+  /**
+   * Validates the initial context and the context after every update. An update that makes the
+   * context invalid fails with a `ContextValidationError`, and the context stays as it was.
+   */
+  validate?: ContextValidator<C>;
+  /**
+   * Merge strategies of the context keys, e.g. `{ count: 'sum', logs: 'append' }`.
+   * The updates of the other keys replace their current values.
+   */
+  merge?: MergeStrategies<C>;
+  /**
+   * Records every version of the context with the step and the stage that caused it.
+   * Read it with `contextHistory`, `contextDiff()` and `exportContextHistory()`.
+   */
+  history?: boolean;
+  /**
+   * Deeply freezes the context, so nested objects and arrays can not be changed by the steps either.
+   * Updates only freeze the values they changed, the rest is shared with the previous version.
+   */
+  deepFreeze?: boolean;
+}
+
+/**
+ * Result of compensating (rolling back) a single step in saga mode.
+ */
+export interface CompensationResult {
+  stepName: string;
+  stepId: string;
+  status: 'compensated' | 'failed';
+  error?: unknown;
+}
+
+export type ExecutionStatus = 'completed' | 'stopped' | 'failed' | 'cancelled';
+export type StepStatus =
+  | 'running'
+  | 'completed'
+  | 'stopped'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped';
+
+/**
+ * - `immediate`: Aborts the signals of the running steps and starts no new steps.
+ * - `graceful`: Lets the running steps finish their current stage, but starts no new steps.
+ */
+export type CancellationMode = 'immediate' | 'graceful';
+
+export interface StartOptions {
+  /**
+   * Cancels the execution when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * How the execution is cancelled when the signal is aborted. Default is `immediate`.
+   */
+  cancellation?: CancellationMode;
+  /**
+   * Identifies the execution in the state store. A random id is generated if not given.
+   */
+  runId?: string;
+}
+
+/**
+ * A changed key of the context.
+ */
+export interface ContextChange {
+  key: string;
+  previous: unknown;
+  value: unknown;
+}
+
+/**
+ * A version of the context recorded in history mode.
+ */
+export interface ContextVersion<C extends IContext> {
+  /**
+   * Starts from 0 for the initial context.
+   */
+  version: number;
+  context: Readonly<C>;
+  /**
+   * The step that caused the version, if the update was done through the step's handlers.
+   */
+  stepName?: string;
+  stepId?: string;
+  /**
+   * The stage the step was in when it updated the context.
+   */
+  stage?: StepStage;
+  /**
+   * The keys changed since the previous version.
+   */
+  changes: ContextChange[];
+  timestamp: number;
+}
+
+/**
+ * Information about the execution of a single step.
+ */
+export interface StepRecord {
+  name: string;
+  id: string;
+  key?: string;
+  /**
+   * Position of the step in the step tree, built from the keys or the queue positions
+   * of the step and its ancestors. Stable across executions of the same tree.
+   */
+  path: string;
+  ancestors?: string[];
+  queueOrder?: number;
+  /**
+   * The last stage the step has reached. Undefined if the step never reached the prepare stage.
+   */
+  stage?: StepStage;
+  status: StepStatus;
+  startedAt: number;
+  duration?: number;
+  error?: unknown;
+  /**
+   * The output the step returned from `execute`, if any.
+   */
+  output?: unknown;
+  /**
+   * Milliseconds the step waited for its rate limiter, included in the duration.
+   */
+  throttled?: number;
+}
+
+/**
+ * An error captured by the error handling of the StepExecutor.
+ */
+export interface StepError {
+  stepName: string;
+  stepId: string;
+  stage: StepStage | 'rollback';
+  error: unknown;
+  /**
+   * True if the error stopped the execution, false if it was ignored by an error handler.
+   */
+  stopped: boolean;
+}
+
+/**
+ * The outcome of an execution returned by `StepExecutor.start()`.
+ */
+export interface ExecutionResult<C extends IContext> {
+  /**
+   * - `completed`: All the steps were executed.
+   * - `stopped`: A step requested an immediate stop.
+   * - `failed`: An error stopped the execution.
+   * - `cancelled`: The execution was cancelled from outside.
+   */
+  status: ExecutionStatus;
+  context: Readonly<C>;
+  steps: StepRecord[];
+  errors: StepError[];
+  compensations: CompensationResult[];
+  /**
+   * Context writes based on stale reads, in the order they happened.
+   */
+  conflicts: ContextConflict[];
+  duration: number;
+  /**
+   * The execution graph, if graphs are enabled.
+   */
+  graph?: GraphData;
+}
+
+export interface PlanOptions {
+  /**
+   * Adds a placeholder for the steps each `execute` may return at runtime. Default is true.
+   */
+  dynamic?: boolean;
+}
+
+/**
+ * A step as it would be executed, according to the statically known step tree.
+ */
+export interface PlannedStep {
+  name: string;
+  key?: string;
+  path: string;
+  ancestors?: string[];
+  queue?: 'before' | 'after' | 'immediate' | 'branch';
+  queueOrder?: number;
+  /**
+   * The case of the branching parent step the step belongs to.
+   */
+  branch?: string;
+  /**
+   * True for the steps with a `when` predicate, which may be skipped at runtime.
+   */
+  conditional?: true;
+  /**
+   * True for the placeholders of the steps returned from `execute` at runtime.
+   */
+  dynamic?: true;
+}
+
+export interface ExecutionPlan {
+  graph: GraphData;
+  /**
+   * The steps in the order their `execute` would run. Steps of the same queue group run concurrently.
+   */
+  steps: PlannedStep[];
+  /**
+   * Human readable execution order, one step per line, indented by the depth of the step.
+   */
+  text: string;
 }
 
 interface ExecutionOptions<C extends IContext> {
   previous?: Step<C>;
   ancestors?: string[];
   queueOrder?: number;
+  path?: string;
+  branch?: string;
+  scope?: ErrorScope;
+  /**
+   * The priority the step waits for its concurrency slot with, if the step does not set its own.
+   */
+  priority?: number;
+}
+
+/**
+ * Contains the errors of a group of steps, e.g. the steps of a forEach item,
+ * so they stop only the steps of the group instead of the whole execution.
+ */
+interface ErrorScope {
+  /**
+   * True once an error stopped the steps of the scope.
+   */
+  halted: boolean;
+  error?: unknown;
+  parent?: ErrorScope;
+  fail(error: unknown): void;
+}
+
+/**
+ * @param parent - (Optional) The enclosing scope. The steps of a scope also stop when its parent stops.
+ * @param onFail - (Optional) Called with the first error that stops the scope.
+ * @returns A new error scope.
+ */
+function createScope(
+  parent?: ErrorScope,
+  onFail?: (error: unknown) => void,
+): ErrorScope {
+  const scope: ErrorScope = {
+    halted: false,
+    parent,
+    fail: (error) => {
+      if (!scope.halted) {
+        scope.halted = true;
+        scope.error = error;
+        onFail?.(error);
+      }
+    },
+  };
+
+  return scope;
+}
+
+function isScopeHalted(scope?: ErrorScope): boolean {
+  for (let s = scope; s; s = s.parent) {
+    if (s.halted) {
+      return true;
+    }
+  }
+
+  return false;
 }
 
 /**
@@ -50,184 +476,2098 @@ export class StepExecutor<C extends IContext> {
   private readonly _MAX_REPETITIONS = 10;
 
   private readonly _steps: Step<C>[];
+  // Copies of the steps for the current execution, so the steps can be executed again
+  private _roots: Step<C>[] = [];
   private readonly _maxRepetitions: number;
-  private readonly _graph: Graph;
+  private readonly _graphOptions?: GraphOptions;
+  private _graph: Graph;
+  private readonly _graphIds: 'instance' | 'path';
   private readonly _concurrencyManager: ConcurrencyManager;
+  private readonly _rateLimiter?: RateLimiter;
+  private readonly _rateLimiters: Map<string, RateLimiter>;
+  private readonly _retry?: RetryPolicy;
+  private readonly _timeout?: StepTimeout;
+  private readonly _deadline?: number;
+  private _deadlineAt?: number;
+  private readonly _saga: boolean;
+  private readonly _rejectOnError: boolean;
+  private readonly _stateStore?: StateStore;
+  private _runId?: string;
+  private _checkpoints: Record<string, StepCheckpoint> = {};
+  private _saving: Promise<void> = Promise.resolve();
   private _context: ImmutableContext<C>;
+  private readonly _initialContext: ImmutableContext<C>;
+  private _executed: Step<C>[] = [];
+  private _compensations: CompensationResult[] = [];
+  private _records: Map<string, StepRecord> = new Map();
+  // The paths of the steps started in the execution, to reject the siblings sharing a key
+  private _paths: Set<string> = new Set();
+  private _outputs: Map<string, unknown> = new Map();
+  private _scopes: Map<string, ErrorScope> = new Map();
+  private _errors: StepError[] = [];
+  private _attempts: Map<string, number> = new Map();
+  private _middleware: Middleware<C>[];
+  private readonly _validate?: ContextValidator<C>;
+  private readonly _merge: MergeStrategies<C>;
+  private _conflicts: ContextConflict[] = [];
+  // The context each step read last, to tell the writes based on stale reads
+  private _reads: Map<string, Readonly<C>> = new Map();
+  private readonly _history?: ContextVersion<C>[];
+  private readonly _contextOptions: ImmutableContextOptions;
+  private readonly _events = new EventEmitter<StepExecutorEvents<C>>();
 
   private _stopImmediate: boolean = false;
+  private _stoppedBy?: StepRecord;
+  private _cancelled: boolean = false;
+  private _running: boolean = false;
+  private _abort = new AbortController();
   private _handlers: IHandlers<C> = {
     stopImmediate: () => {
-      this._stopImmediate = true;
-    },
-    contextUpdater: (updater) => {
-      this._context = this._context.update(updater);
+      if (!this._stopImmediate) {
+        this._stopImmediate = true;
+        this._events.emit('executor:stopped', {
+          stepName: this._stoppedBy?.name,
+          stepId: this._stoppedBy?.id,
+          timestamp: Date.now(),
+        });
+      }
     },
+    contextUpdater: createContextUpdater((updater) =>
+      this._updateContext(updater),
+    ),
+    signal: this._abort.signal,
+    outputOf: <SC extends IContext, O>(step: Step<SC, O>) =>
+      this._outputs.get(stepId(step)) as O | undefined,
   };
 
   constructor(
     s: Step<C> | Step<C>[],
     c: C,
-    private _errorHandlers?: ErrorHandlers,
-    options?: Options,
+    private _errorHandlers?: ErrorHandlers<C>,
+    options?: Options<C>,
   ) {
     this._steps = Array.isArray(s) ? s : [s];
-    this._context = new ImmutableContext(c);
+    this._validate = options?.validate;
+    this._merge = options?.merge ?? {};
+    this._contextOptions = { deep: options?.deepFreeze };
+    this._context = new ImmutableContext(
+      this._validated(c),
+      this._contextOptions,
+    );
+    this._initialContext = this._context;
     this._maxRepetitions = options?.maxRepetitions ?? this._MAX_REPETITIONS;
+    this._graphOptions = options?.graph;
     this._graph = new Graph(options?.graph);
+    this._graphIds = options?.graph?.ids ?? 'path';
     this._concurrencyManager = new ConcurrencyManager(options?.concurrency);
+    this._rateLimiter =
+      options?.rateLimit && new RateLimiter(options.rateLimit);
+    this._rateLimiters = new Map(
+      Object.entries(options?.rateLimiters ?? {}).map(([name, o]) => [
+        name,
+        new RateLimiter(o),
+      ]),
+    );
+    this._retry = options?.retry;
+    this._timeout = options?.timeout;
+    this._deadline = options?.deadline;
+    this._saga = options?.saga ?? false;
+    this._rejectOnError = options?.rejectOnError ?? false;
+    this._stateStore = options?.stateStore;
+    this._middleware = [...(options?.middleware ?? [])];
+    if (options?.history) {
+      this._history = [];
+      this._recordVersion([]);
+    }
+  }
+
+  /**
+   * @returns The id of the current execution, used to persist its progress in the state store.
+   */
+  get runId(): string | undefined {
+    return this._runId;
+  }
+
+  /**
+   * @returns An object containing nodes and edges for the execution graph.
+   */
+  get graphData(): GraphData {
+    return this._graph.data;
+  }
+
+  /**
+   * Exports the execution graph, e.g. to attach it to a report. Graphs have to be enabled.
+   *
+   * @param format - `dot` for Graphviz, `mermaid` for a Mermaid flowchart or `html` for a standalone HTML document.
+   * @param options - (Optional) Options for the `html` format.
+   * @returns The exported graph.
+   */
+  exportGraph(format: GraphFormat, options?: HtmlExportOptions): string {
+    return this._graph.export(format, options);
+  }
+
+  /**
+   * @returns The results of the rollbacks performed in saga mode, in the order they were performed.
+   */
+  get compensations(): CompensationResult[] {
+    return [...this._compensations];
+  }
+
+  /**
+   * @returns All the versions of the context, starting from the initial one. Empty unless the `history` option is set.
+   */
+  get contextHistory(): ContextVersion<C>[] {
+    return [...(this._history ?? [])];
+  }
+
+  /**
+   * Combines all the changes a step made to the context into a single diff. History has to be enabled.
+   *
+   * @param step - The step, or its id.
+   * @returns The changed keys with their value before the first change and after the last change of the step.
+   */
+  contextDiff(step: Step<C> | string): ContextChange[] {
+    const id = typeof step === 'string' ? step : stepId(step);
+    const changes = new Map<string, ContextChange>();
+    for (const version of this._history ?? []) {
+      if (version.stepId !== id) {
+        continue;
+      }
+
+      for (const { key, previous, value } of version.changes) {
+        changes.set(key, {
+          key,
+          previous: changes.has(key) ? changes.get(key)!.previous : previous,
+          value,
+        });
+      }
+    }
+
+    return [...changes.values()];
+  }
+
+  /**
+   * Exports the context history as JSON, e.g. for an audit trail. History has to be enabled.
+   * The context has to be JSON serializable.
+   *
+   * @returns The JSON of all the versions of the context.
+   */
+  exportContextHistory(): string {
+    return JSON.stringify(this._history ?? [], null, 2);
+  }
+
+  /**
+   * Adds a middleware that wraps every `prepare`, `execute`, `final` and `rollback` call.
+   * It runs inside the middleware added before it.
+   *
+   * @param middleware - The middleware to add.
+   * @returns A function that removes the middleware.
+   */
+  use(middleware: Middleware<C>): () => void {
+    this._middleware.push(middleware);
+
+    return () => {
+      this._middleware = this._middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Registers a listener for an execution event.
+   *
+   * @param event - The name of the event, e.g. `step:execute:start`.
+   * @param listener - The function to be called with the event payload.
+   * @returns A function that removes the listener.
+   */
+  on<K extends keyof StepExecutorEvents<C>>(
+    event: K,
+    listener: Listener<StepExecutorEvents<C>[K]>,
+  ): () => void {
+    return this._events.on(event, listener);
+  }
+
+  /**
+   * Registers a listener for an execution event that will be removed after the first call.
+   *
+   * @param event - The name of the event.
+   * @param listener - The function to be called with the event payload.
+   * @returns A function that removes the listener.
+   */
+  once<K extends keyof StepExecutorEvents<C>>(
+    event: K,
+    listener: Listener<StepExecutorEvents<C>[K]>,
+  ): () => void {
+    return this._events.once(event, listener);
+  }
+
+  /**
+   * Removes a previously registered listener.
+   *
+   * @param event - The name of the event.
+   * @param listener - The listener to remove.
+   */
+  off<K extends keyof StepExecutorEvents<C>>(
+    event: K,
+    listener: Listener<StepExecutorEvents<C>[K]>,
+  ): void {
+    this._events.off(event, listener);
+  }
+
+  /**
+   * Asynchronously starts the execution of all provided steps concurrently.
+   * It handles preparation, before queue execution, current step execution,
+   * after queue execution, and finalization of all the steps.
+   * Stops execution if an immediate stop is requested or an error occurs.
+   * But the steps that are executed in parallel might still be executed till the end
+   * In saga mode, every step that was successfully executed will be rolled back once all the
+   * executions settled, if the execution was stopped.
+   *
+   * The execution can be cancelled from outside with an `AbortSignal`.
+   * The executor can be started again once the execution finished, starting over from the initial context.
+   *
+   * @param options - (Optional) The options of this execution such as the cancellation signal.
+   * @returns A Promise that resolves with the result of the execution when all step executions are completed.
+   * @throws ExecutionError if the execution failed and `rejectOnError` option is set.
+   * @throws Error if the executor is already running.
+   */
+  async start(options?: StartOptions): Promise<ExecutionResult<C>> {
+    this._reset();
+    try {
+      return await this._execute(options);
+    } finally {
+      this._running = false;
+    }
+  }
+
+  /**
+   * Executes the steps from the state set up by `start` or `resume`.
+   *
+   * @param options - (Optional) The options of this execution such as the cancellation signal.
+   * @returns A Promise that resolves with the result of the execution when all step executions are completed.
+   * @throws ExecutionError if the execution failed and `rejectOnError` option is set.
+   */
+  private async _execute(options?: StartOptions): Promise<ExecutionResult<C>> {
+    const startedAt = Date.now();
+    if (this._stateStore) {
+      this._runId = options?.runId ?? randomUUID();
+    }
+
+    this._events.emit('executor:start', { timestamp: startedAt });
+
+    const signal = options?.signal;
+    const onAbort = () =>
+      this._cancel(options?.cancellation ?? 'immediate', signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // No new steps are started once the deadline is reached
+    let deadlineId: ReturnType<typeof setTimeout> | undefined;
+    if (this._deadline !== undefined) {
+      this._deadlineAt = startedAt + this._deadline;
+      deadlineId = setTimeout(
+        () => this._handlers.stopImmediate(),
+        this._deadline,
+      );
+    }
+
+    try {
+      // All the provided steps will start executing concurrently
+      this._roots = cloneSteps(this._steps);
+      await Promise.all(
+        this._roots.map((s, i) =>
+          this._start(s, { path: this._path(s, undefined, `${i}`) }),
+        ),
+      );
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      clearTimeout(deadlineId);
+    }
+
+    if (this._saga && (this._stopImmediate || this._cancelled)) {
+      await this._compensate();
+    }
+
+    const result = this._result(Date.now() - startedAt);
+    await this._checkpoint(result.status);
+    this._events.emit('executor:end', { result, timestamp: Date.now() });
+
+    if (this._rejectOnError && result.status === 'failed') {
+      throw new ExecutionError(result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resumes an execution from the progress persisted in the state store.
+   * The context is restored, and the steps that already completed are skipped.
+   * The `prepare` of the steps that did not complete is called again.
+   * A step that completed its `execute` but not its `final` continues from its after queue.
+   * Note that the steps returned from such an `execute` are not executed again.
+   *
+   * @param runId - The id of the execution to resume.
+   * @param options - (Optional) The options of this execution such as the cancellation signal.
+   * @returns A Promise that resolves with the result of the execution when all step executions are completed.
+   * @throws Error if there is no state store or no persisted state for the given run id.
+   */
+  async resume(
+    runId: string,
+    options?: Omit<StartOptions, 'runId'>,
+  ): Promise<ExecutionResult<C>> {
+    if (!this._stateStore) {
+      throw new Error('A state store is required to resume an execution.');
+    }
+
+    this._reset();
+    try {
+      const state = await this._stateStore.load(runId);
+      if (!state) {
+        throw new Error(`No persisted state found for the run "${runId}".`);
+      }
+
+      this._context = new ImmutableContext(
+        this._validated(state.context as C),
+        this._contextOptions,
+      );
+      if (this._history) {
+        this._recordVersion(
+          this._diff(this._history[this._history.length - 1].context),
+        );
+      }
+      this._checkpoints = { ...state.steps };
+      return await this._execute({ ...options, runId });
+    } finally {
+      this._running = false;
+    }
+  }
+
+  /**
+   * Clears the state of the previous execution, so the executor can be started again,
+   * and marks the executor as running.
+   *
+   * @throws Error if the executor is already running.
+   */
+  private _reset(): void {
+    if (this._running) {
+      throw new Error(
+        'The executor is already running. Wait for the execution to finish or use a new executor.',
+      );
+    }
+
+    this._running = true;
+    this._context = this._initialContext;
+    this._checkpoints = {};
+    this._graph = new Graph(this._graphOptions);
+    this._roots = [];
+    this._executed = [];
+    this._compensations = [];
+    this._records = new Map();
+    this._paths = new Set();
+    this._outputs = new Map();
+    this._scopes = new Map();
+    this._errors = [];
+    this._attempts = new Map();
+    this._conflicts = [];
+    this._reads = new Map();
+    this._deadlineAt = undefined;
+    this._stopImmediate = false;
+    this._stoppedBy = undefined;
+    this._cancelled = false;
+    this._abort = new AbortController();
+    this._handlers.signal = this._abort.signal;
+    if (this._history) {
+      this._history.length = 0;
+      this._recordVersion([]);
+    }
+  }
+
+  /**
+   * Walks the statically known step tree, the steps enqueued in the before and after queues,
+   * without calling any `prepare`, `execute` or `final` and without dequeuing any step.
+   * Steps enqueued at runtime, e.g. within `prepare`, are not known and do not appear in the plan.
+   *
+   * @param options - (Optional) The plan options.
+   * @returns The graph and the execution order the steps would have.
+   * @throws Error if a step is repeated more than allowed in its ancestors,
+   * or if sibling steps have the same key.
+   */
+  plan(options?: PlanOptions): ExecutionPlan {
+    const graph = new Graph({ enable: true });
+    const steps: PlannedStep[] = [];
+    const paths = new Set<string>();
+    const dynamic = options?.dynamic ?? true;
+
+    const walk = (
+      step: Step<C>,
+      planned: PlannedStep,
+      previousId?: string,
+    ): void => {
+      const currentAncestors = [...(planned.ancestors ?? []), step.name];
+      this._checkRepetitions(currentAncestors, step.name);
+      this._checkKey(step, planned.path, paths);
+
+      const id = this._nodeId(step, planned.path);
+      const node: GraphNode = {
+        id,
+        label: step.name,
+        key: step.key,
+        path: planned.path,
+        ancestors: planned.ancestors,
+        queueOrder: planned.queueOrder,
+      };
+      if (step.when) {
+        node.isConditional = planned.conditional = true;
+      }
+      graph.addNode(node);
+      if (previousId) {
+        graph.addEdge({
+          from: previousId,
+          to: id,
+          queueOrder: planned.queueOrder,
+          label: planned.branch,
+        });
+      }
+
+      const children = (
+        queue: 'before' | 'after',
+        groups: Step<C>[][],
+      ): void => {
+        groups.forEach((group, queueOrder) =>
+          group.forEach((s, i) => {
+            const path = this._path(
+              s,
+              planned.path,
+              `${queue[0]}${queueOrder}.${i}`,
+            );
+            walk(
+              s,
+              {
+                name: s.name,
+                key: s.key,
+                path,
+                ancestors: currentAncestors,
+                queue,
+                queueOrder,
+              },
+              id,
+            );
+            if (queue === 'before') {
+              graph.addEdge({
+                from: this._nodeId(s, path),
+                to: id,
+                isReturn: true,
+              });
+            }
+          }),
+        );
+      };
+
+      children('before', peekBefore(step));
+      steps.push(planned);
+
+      // All the cases of a branching step are planned, as any of them may be selected
+      if (step instanceof BranchStep) {
+        for (const [label, cases] of Object.entries(step.cases)) {
+          cases.forEach((s, i) =>
+            walk(
+              s,
+              {
+                name: s.name,
+                key: s.key,
+                path: this._path(s, planned.path, `[${label}]${i}`),
+                ancestors: currentAncestors,
+                queue: 'branch',
+                branch: label,
+              },
+              id,
+            ),
+          );
+        }
+      } else if (dynamic) {
+        const path = `${planned.path}/i*:dynamic`;
+        const placeholderId =
+          this._graphIds === 'path' ? path : `${id}/dynamic`;
+        graph.addNode({
+          id: placeholderId,
+          label: 'dynamic',
+          path,
+          ancestors: currentAncestors,
+          isDynamic: true,
+        });
+        graph.addEdge({ from: id, to: placeholderId });
+        steps.push({
+          name: 'dynamic',
+          path,
+          ancestors: currentAncestors,
+          queue: 'immediate',
+          dynamic: true,
+        });
+      }
+
+      children('after', peekAfter(step));
+    };
+
+    this._steps.forEach((s, i) =>
+      walk(s, {
+        name: s.name,
+        key: s.key,
+        path: this._path(s, undefined, `${i}`),
+      }),
+    );
+
+    const text = steps
+      .map((s) => {
+        const indent = '  '.repeat(s.ancestors?.length ?? 0);
+        const position = s.queueOrder ?? s.branch;
+        const queue = s.queue
+          ? ` [${s.queue}${position !== undefined ? ` ${position}` : ''}]`
+          : '';
+        const when = s.conditional ? ' [when]' : '';
+        return `${indent}${s.dynamic ? '<dynamic>' : s.name}${queue}${when} (${s.path})`;
+      })
+      .join('\n');
+
+    return { graph: graph.data, steps, text };
+  }
+
+  /**
+   * Asynchronously starts the execution of a step.
+   * Handles preparation, before queue execution, current step execution, after queue execution, and finalization.
+   * Stops execution if an immediate stop is requested or an error occurs.
+   *
+   * @param step - The step to be executed.
+   * @param previous - The previous step that leads to the current step.
+   * @param ancestors - An array of step names representing the ancestors of the current step.
+   * @returns A Promise that resolves with the started step when the step and its related steps are executed.
+   */
+  private async _start(
+    step: Step<C>,
+    options: ExecutionOptions<C>,
+  ): Promise<Step<C>> {
+    const { ancestors } = options;
+    const path =
+      options.path ??
+      this._path(step, undefined, `${this._roots.indexOf(step)}`);
+
+    // A step started again, e.g. returned twice from an execute, runs as a copy with ids of its own,
+    // so its record, output and graph node are not mixed with the ones of its other run
+    if (this._records.has(stepId(step))) {
+      [step] = cloneSteps([step], true);
+    }
+
+    // Validate circular dependency
+    const currentAncestors = ancestors
+      ? [...ancestors, step.name]
+      : [step.name];
+    this._checkRepetitions(currentAncestors, step.name);
+    this._checkKey(step, path, this._paths);
+
+    const record: StepRecord = {
+      name: step.name,
+      id: stepId(step),
+      key: step.key,
+      path,
+      ancestors,
+      queueOrder: options.queueOrder,
+      status: 'running',
+      startedAt: Date.now(),
+    };
+    this._records.set(record.id, record);
+    if (options.scope) {
+      this._scopes.set(record.id, options.scope);
+    }
+
+    // Creates a new node for the current step and links it to the previous one
+    if (this._graph.enabled) {
+      this._updateGraph(step, options);
+    }
+
+    this._events.emit('step:start', this._stepEvent(step));
+
+    // Each step gets its own signal, aborted when the whole execution is cancelled
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(this._abort.signal.reason);
+    if (this._abort.signal.aborted) {
+      onAbort();
+    }
+    this._abort.signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      await this._run(
+        step,
+        {
+          ...options,
+          path: record.path,
+          priority: step.priority ?? options.priority,
+        },
+        currentAncestors,
+        this._stepHandlers(step, record, controller.signal),
+      );
+    } finally {
+      this._abort.signal.removeEventListener('abort', onAbort);
+      record.duration = Date.now() - record.startedAt;
+      if (record.status === 'running') {
+        record.status = 'stopped';
+      }
+      if (this._graph.enabled) {
+        this._graph.setDuration(this._graphId(step), record.duration);
+      }
+
+      this._events.emit('step:end', {
+        ...this._stepEvent(step),
+        status: record.status,
+        duration: record.duration,
+      });
+    }
+
+    return step;
+  }
+
+  /**
+   * Runs the stages of a step and its before, immediate and after steps.
+   *
+   * @param step - The step to be executed.
+   * @param options - The execution options of the step, including its path.
+   * @param currentAncestors - The ancestors of the step including the step itself.
+   * @param handlers - The handlers passed to the stages of the step.
+   * @returns A Promise that resolves when the step and its related steps are executed.
+   */
+  private async _run(
+    step: Step<C>,
+    options: ExecutionOptions<C>,
+    currentAncestors: string[],
+    handlers: IHandlers<C>,
+  ): Promise<void> {
+    // If any step other requested an immediate stop or the execution was cancelled
+    if (this._halted(step)) {
+      return;
+    }
+
+    // Steps are skipped if their predicate is not met, before any of their stages
+    if (step.when) {
+      const { result: met, decision } = await this._guard(
+        step,
+        'prepare',
+        async () => step.when!(this._contextOf(step)),
+      );
+      if (decision) {
+        if (
+          await this._recover(
+            step,
+            'prepare',
+            decision,
+            options,
+            currentAncestors,
+            handlers,
+          )
+        ) {
+          return;
+        }
+      } else if (!met) {
+        return this._skip(step);
+      }
+    }
+
+    // Stages completed in a previous execution are skipped when resuming
+    const path = options.path!;
+    const checkpoint = this._checkpoints[path];
+    const completed = (stage: StepStage) =>
+      checkpoint?.name === step.name &&
+      STAGES.indexOf(checkpoint.stage) >= STAGES.indexOf(stage);
+
+    // Outputs of the completed executes are restored, so the other steps can still read them
+    if (completed('execute') && checkpoint.output !== undefined) {
+      this._outputs.set(stepId(step), checkpoint.output);
+      this._setRecord(step, { output: checkpoint.output });
+    }
+
+    if (completed('final')) {
+      this._executed.push(step);
+      this._setRecord(step, { stage: 'final', status: 'completed' });
+      return;
+    }
+
+    // Preparations
+    // Prepared again when resuming, as the state and the queued steps it sets up on the step are not persisted.
+    // The queued steps that completed in the previous execution are skipped by their own checkpoints
+    const { decision: prepared } = await this._guard(
+      step,
+      'prepare',
+      async () => {
+        await this._runStage(step, 'prepare', handlers, (h) =>
+          step.prepare(this._contextOf(step), h),
+        );
+        if (!completed('prepare')) {
+          await this._saveCheckpoint(step, path, 'prepare');
+        }
+      },
+    );
+    if (
+      prepared &&
+      (await this._recover(
+        step,
+        'prepare',
+        prepared,
+        options,
+        currentAncestors,
+        handlers,
+      ))
+    ) {
+      return;
+    }
+
+    // Executing before queue recursively
+    for (let queueOrder = 0; !isBeforeEmpty(step); queueOrder++) {
+      const priority = beforePriority(step);
+      const steps = dequeueBefore(step);
+      this._emitDequeued(step, 'before', steps, queueOrder);
+      await Promise.all(
+        steps.map((s, i) =>
+          this._start(s, {
+            previous: step,
+            ancestors: currentAncestors,
+            queueOrder,
+            path: this._path(s, path, `b${queueOrder}.${i}`),
+            scope: options.scope,
+            priority,
+          }),
+        ),
+      );
+
+      // Before-executions always come back to the current step, hence we add the coming back edge to  the graph
+      if (this._graph.enabled) {
+        for (const s of steps) {
+          this._updateGraph(
+            step,
+            {
+              ...options,
+              previous: s,
+              queueOrder: undefined, // Coming-back-edges orders are same as initial order
+            },
+            true,
+          );
+        }
+      }
+
+      // If any before step of the current step or highest priority step requested an immediate stop
+      if (this._halted(step)) {
+        return;
+      }
+    }
+
+    // Executing the current step
+    const immediateSteps: Step<C>[] = [];
+    if (completed('execute')) {
+      this._executed.push(step);
+    } else {
+      let decision: SettledDecision<C> | undefined;
+      let resources: ResourceRequest | undefined;
+      let acquired = false;
+      try {
+        // Failing to acquire the slot and the resources is handled like a failed execute
+        decision = (
+          await this._guard(step, 'execute', async () => {
+            // The first attempt waits for its token before taking a slot, so it does not hold back the other steps
+            const limiter = this._rateLimiterOf(step);
+            if (limiter) {
+              await this._throttle(step, 'execute', limiter);
+            }
+
+            resources = this._resourcesOf(step);
+            await this._concurrencyManager.acquire(resources, options.priority);
+            acquired = true;
+          })
+        ).decision;
+
+        // The execution might have been cancelled or stopped, or reached its deadline, while waiting for a slot.
+        // Returning releases the slot
+        if (this._deadlineAt !== undefined && Date.now() >= this._deadlineAt) {
+          this._handlers.stopImmediate();
+        }
+        if (this._halted(step)) {
+          return;
+        }
+
+        if (!decision) {
+          const run = await this._guard(step, 'execute', async () => {
+            try {
+              return await this._runStage(step, 'execute', handlers, (h) =>
+                step.execute(this._contextOf(step), h),
+              );
+            } catch (error) {
+              // The graph of a failed sub-workflow is the most useful one to see
+              if (
+                step instanceof SubflowStep &&
+                error instanceof ExecutionError
+              ) {
+                this._embedSubflow(step, error.result.graph);
+              }
+              throw error;
+            }
+          });
+
+          decision = run.decision;
+          if (!decision) {
+            const result = run.result;
+            this._executed.push(step);
+            if (isSteps(result)) {
+              immediateSteps.push(
+                ...cloneSteps(Array.isArray(result) ? result : [result]),
+              );
+            } else if (result !== undefined) {
+              this._outputs.set(stepId(step), result);
+              this._setRecord(step, { output: result });
+            }
+            if (step instanceof SubflowStep) {
+              this._embedSubflow(
+                step,
+                (result as ExecutionResult<IContext>).graph,
+              );
+            }
+
+            // Failing to persist the progress is handled like a failed execute, without executing it again.
+            // The steps returned from execute are not persisted, so the execute of a step returning steps
+            // is persisted once they are executed. Resuming executes it again to get the unfinished ones
+            if (immediateSteps.length === 0) {
+              decision = (
+                await this._guard(step, 'execute', () =>
+                  this._saveCheckpoint(step, path, 'execute'),
+                )
+              ).decision;
+            }
+          }
+        }
+      } finally {
+        if (acquired) {
+          this._concurrencyManager.release(resources);
+        }
+      }
+
+      // Recovering outside of the concurrency slot, as a replacement step needs a slot of its own
+      if (
+        decision &&
+        (await this._recover(
+          step,
+          'execute',
+          decision,
+          options,
+          currentAncestors,
+          handlers,
+        ))
+      ) {
+        return;
+      }
+    }
+
+    // Immediate steps returned by the current execute function should be executed immediately
+    // even before the after queue steps.
+    if (immediateSteps.length > 0) {
+      this._emitDequeued(step, 'immediate', immediateSteps);
+    }
+    await Promise.all(
+      immediateSteps.map((s, i) =>
+        this._start(s, {
+          previous: step,
+          ancestors: currentAncestors,
+          path: this._path(s, path, `i${i}`),
+          scope: options.scope,
+          priority: options.priority,
+        }),
+      ),
+    );
+
+    // If any of the immediate steps requested an immediate stop
+    if (this._halted(step)) {
+      return;
+    }
+
+    if (immediateSteps.length > 0) {
+      const { decision } = await this._guard(step, 'execute', () =>
+        this._saveCheckpoint(step, path, 'execute'),
+      );
+      if (
+        decision &&
+        (await this._recover(
+          step,
+          'execute',
+          decision,
+          options,
+          currentAncestors,
+          handlers,
+        ))
+      ) {
+        return;
+      }
+    }
+
+    // The selected case of a branching step is executed right after the step, like immediate steps
+    // Kept apart from the step, as the narrowed step does not know the type of the context
+    const branch = step instanceof BranchStep ? step : undefined;
+    if (branch) {
+      await this._runBranch(branch, options, currentAncestors);
+      if (this._halted(step)) {
+        return;
+      }
+    }
+
+    // The iterations of a loop step are executed right after the step, like immediate steps
+    const loop = step instanceof LoopStep ? step : undefined;
+    if (loop) {
+      const { decision } = await this._guard(step, 'execute', () =>
+        this._runLoop(loop, options, currentAncestors),
+      );
+      if (
+        decision &&
+        (await this._recover(
+          step,
+          'execute',
+          decision,
+          options,
+          currentAncestors,
+          handlers,
+        ))
+      ) {
+        return;
+      }
+
+      if (this._halted(step)) {
+        return;
+      }
+    }
+
+    // The items of a forEach step are executed right after the step, like immediate steps
+    const forEach = step instanceof ForEachStep ? step : undefined;
+    if (forEach) {
+      const { decision } = await this._guard(step, 'execute', async () => {
+        const group = await this._runForEach(
+          forEach,
+          options,
+          currentAncestors,
+        );
+        if (group.halted) {
+          throw group.error;
+        }
+      });
+      if (
+        decision &&
+        (await this._recover(
+          step,
+          'execute',
+          decision,
+          options,
+          currentAncestors,
+          handlers,
+        ))
+      ) {
+        return;
+      }
+
+      if (this._halted(step)) {
+        return;
+      }
+    }
+
+    // Executing after queue recursively
+    for (let queueOrder = 0; !isAfterEmpty(step); queueOrder++) {
+      const priority = afterPriority(step);
+      const steps = dequeueAfter(step);
+      this._emitDequeued(step, 'after', steps, queueOrder);
+      await Promise.all(
+        steps.map((s, i) =>
+          this._start(s, {
+            previous: step,
+            ancestors: currentAncestors,
+            queueOrder,
+            path: this._path(s, path, `a${queueOrder}.${i}`),
+            scope: options.scope,
+            priority,
+          }),
+        ),
+      );
+
+      // If any highest priority step requested an immediate stop
+      if (this._halted(step)) {
+        return;
+      }
+    }
+
+    // Wrapping up with final
+    const { decision } = await this._guard(step, 'final', async () => {
+      await this._runStage(step, 'final', handlers, (h) =>
+        step.final(this._contextOf(step), h),
+      );
+      await this._saveCheckpoint(step, path, 'final');
+    });
+    if (
+      decision &&
+      (await this._recover(
+        step,
+        'final',
+        decision,
+        options,
+        currentAncestors,
+        handlers,
+      ))
+    ) {
+      return;
+    }
+
+    this._setRecord(step, { status: 'completed' });
+  }
+
+  /**
+   * Runs a stage and lets the error handlers decide what to do when it fails.
+   * The stage is run again as long as the decision is to retry.
+   *
+   * @param step - The step the stage belongs to.
+   * @param stage - The stage being run.
+   * @param run - The function that runs the stage.
+   * @returns The result of the stage, or the decision taken after it failed.
+   */
+  private async _guard<R>(
+    step: Step<C>,
+    stage: StepStage,
+    run: () => Promise<R>,
+  ): Promise<{ result?: R; decision?: SettledDecision<C> }> {
+    for (;;) {
+      try {
+        return { result: await run() };
+      } catch (error) {
+        const decision = this._defaultErrorHandler(error, step, stage);
+        if (decision !== 'retry') {
+          return { decision };
+        }
+      }
+    }
+  }
+
+  /**
+   * Carries out the decision taken after a stage of a step failed.
+   * A step whose execute failed and stopped the execution is rolled back.
+   *
+   * @param step - The failed step.
+   * @param stage - The failed stage.
+   * @param decision - The decision of the error handler.
+   * @param options - The execution options of the step.
+   * @param currentAncestors - The ancestors of the step including the step itself.
+   * @param handlers - The handlers of the step.
+   * @returns True if the step must not go on with its remaining stages and the steps it queued.
+   */
+  private async _recover(
+    step: Step<C>,
+    stage: StepStage,
+    decision: SettledDecision<C>,
+    options: ExecutionOptions<C>,
+    currentAncestors: string[],
+    handlers: IHandlers<C>,
+  ): Promise<boolean> {
+    switch (decision) {
+      case 'continue':
+        return false;
+      case 'stop':
+        if (stage === 'execute') {
+          await this._runRollback(step, handlers);
+        }
+        return true;
+      case 'skipSubtree':
+        this._skip(step);
+        return true;
+    }
+
+    this._setRecord(step, { status: 'failed' });
+    if (this._graph.enabled) {
+      this._graph.setError(this._graphId(step));
+    }
+
+    if (decision === 'rollbackAndContinue') {
+      await this._runRollback(step, handlers);
+      return true;
+    }
+
+    const [replacement] = cloneSteps([decision]);
+    await this._start(replacement, {
+      previous: step,
+      ancestors: currentAncestors,
+      path: this._path(replacement, options.path!, 'r'),
+      branch: 'replacement',
+      scope: options.scope,
+      priority: options.priority,
+    });
+    return true;
+  }
+
+  /**
+   * Executes the iterations of a loop step, one after the other, until its exit condition is met.
+   * Each iteration executes a new copy of the step returned by the body, as a sibling of the other
+   * iterations, so the iterations do not count as repetitions in the ancestors.
+   * The number of iterations and the output of the last one are the output of the loop step.
+   *
+   * @param step - The loop step.
+   * @param options - The execution options of the loop step.
+   * @param currentAncestors - The ancestors of the step including the step itself.
+   * @returns A Promise that resolves when the loop ends.
+   * @throws LoopLimitError if the exit condition is not met within the maximum number of iterations.
+   */
+  private async _runLoop(
+    step: LoopStep<C>,
+    options: ExecutionOptions<C>,
+    currentAncestors: string[],
+  ): Promise<void> {
+    const path = options.path!;
+    const { maxIterations = DEFAULT_MAX_ITERATIONS, delay } = step.options;
+
+    for (let iteration = 0; ; iteration++) {
+      if (
+        step.options.while &&
+        !step.options.while(this._context.get(), iteration)
+      ) {
+        return;
+      }
+
+      if (iteration === maxIterations) {
+        if (step.options.while || step.options.until) {
+          throw new LoopLimitError(step.name, maxIterations);
+        }
+        return;
+      }
+
+      if (iteration > 0 && delay !== undefined) {
+        await sleep(
+          typeof delay === 'number' ? delay : backoffDelay(delay, iteration),
+          this._abort.signal,
+        );
+      }
+      if (
+        this._stopImmediate ||
+        this._cancelled ||
+        isScopeHalted(options.scope)
+      ) {
+        return;
+      }
+
+      // Each iteration gets its own node in the graph, linking the loop step to the step of the iteration
+      const iterationPath = `${path}/l${iteration}`;
+      const iterationId =
+        this._graphIds === 'path'
+          ? iterationPath
+          : `${this._graphId(step)}/l${iteration}`;
+      if (this._graph.enabled) {
+        this._graph.addNode({
+          id: iterationId,
+          label: `${step.name} #${iteration}`,
+          path: iterationPath,
+          ancestors: currentAncestors,
+          iteration,
+        });
+        this._graph.addEdge({ from: this._graphId(step), to: iterationId });
+      }
+
+      const [body] = cloneSteps([step.body(iteration)], true);
+      await this._start(body, {
+        ancestors: currentAncestors,
+        path: this._path(body, iterationPath, '0'),
+        scope: options.scope,
+        priority: options.priority,
+      });
+      if (this._graph.enabled) {
+        this._graph.addEdge({ from: iterationId, to: this._graphId(body) });
+      }
+
+      const output = this._records.get(stepId(body))?.output;
+      const result: LoopResult = { iterations: iteration + 1, output };
+      this._outputs.set(stepId(step), result);
+      this._setRecord(step, { output: result });
+
+      if (
+        this._stopImmediate ||
+        this._cancelled ||
+        isScopeHalted(options.scope)
+      ) {
+        return;
+      }
+
+      if (step.options.until?.(this._context.get(), output, iteration)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Executes one step per item of a forEach step, with the parallelism limit of the step.
+   * Each item has its own error scope, so a failing item stops only its own steps,
+   * and in `failFast` mode the items that have not finished yet as well.
+   * The results of the items are the output of the forEach step.
+   *
+   * @param step - The forEach step.
+   * @param options - The execution options of the forEach step.
+   * @param currentAncestors - The ancestors of the step including the step itself.
+   * @returns The error scope of the items, halted if the forEach step failed.
+   */
+  private async _runForEach(
+    step: ForEachStep<C>,
+    options: ExecutionOptions<C>,
+    currentAncestors: string[],
+  ): Promise<ErrorScope> {
+    const items = step.items(this._context.get());
+    const failFast = (step.options.mode ?? 'failFast') === 'failFast';
+    const group = createScope(options.scope);
+    const limiter = new ConcurrencyManager({
+      limit: step.options.concurrency ?? Math.max(items.length, 1),
+      timeout: 0,
+    });
+
+    const children = cloneSteps(items.map((item, i) => step.create(item, i)));
+    if (children.length > 0) {
+      this._emitDequeued(step, 'forEach', children);
+    }
+
+    const results: ForEachItemResult[] = [];
+    await Promise.all(
+      children.map(async (child, index) => {
+        const item = items[index];
+        await limiter.acquire();
+        try {
+          if (group.halted || this._stopImmediate || this._cancelled) {
+            results[index] = { item, index, status: 'stopped' };
+            return;
+          }
+
+          // The error of the item is already reported for the step of the item, the forEach step gets its own
+          const scope = createScope(group, (error) => {
+            if (failFast) {
+              group.fail(new ForEachItemError(step.name, index, error));
+            }
+          });
+          // A key the create function sets is the same for every item, the index still tells the items apart
+          const path = child.key
+            ? `${options.path!}/e${index}/${child.key}`
+            : this._path(child, options.path!, `e${index}`);
+          const started = await this._start(child, {
+            previous: step,
+            ancestors: currentAncestors,
+            path,
+            scope,
+            priority: options.priority,
+          });
+
+          const record = this._records.get(stepId(started));
+          results[index] = {
+            item,
+            index,
+            status: scope.halted ? 'failed' : (record?.status ?? 'stopped'),
+            output: record?.output,
+            error: scope.error,
+          };
+        } finally {
+          limiter.release();
+        }
+      }),
+    );
+
+    this._outputs.set(stepId(step), results);
+    this._setRecord(step, { output: results });
+    return group;
+  }
+
+  /**
+   * Executes the steps of the case selected by a branching step, and adds the other cases
+   * to the graph as skipped, so the decision is visible in the graph.
+   *
+   * @param step - The branching step. Its output is the selected case.
+   * @param options - The execution options of the branching step.
+   * @param currentAncestors - The ancestors of the step including the step itself.
+   * @returns A Promise that resolves when the steps of the selected case are executed.
+   */
+  private async _runBranch(
+    step: BranchStep<C>,
+    options: ExecutionOptions<C>,
+    currentAncestors: string[],
+  ): Promise<void> {
+    const path = options.path!;
+    const selected = this._outputs.get(stepId(step)) as string | undefined;
+
+    if (selected !== undefined && step.cases[selected]) {
+      const steps = cloneSteps(step.cases[selected]);
+      this._emitDequeued(step, 'branch', steps);
+      await Promise.all(
+        steps.map((s, i) =>
+          this._start(s, {
+            previous: step,
+            ancestors: currentAncestors,
+            path: this._path(s, path, `[${selected}]${i}`),
+            branch: selected,
+            scope: options.scope,
+            priority: options.priority,
+          }),
+        ),
+      );
+    }
+
+    // Added after the selected case, so a step shared with the selected case is not marked as skipped
+    if (this._graph.enabled) {
+      for (const [label, cases] of Object.entries(step.cases)) {
+        if (label === selected) {
+          continue;
+        }
+
+        cases.forEach((s, i) => {
+          const casePath = this._path(s, path, `[${label}]${i}`);
+          const id = this._nodeId(s, casePath);
+          this._graph.addNode({
+            id,
+            label: s.name,
+            key: s.key,
+            path: casePath,
+            ancestors: currentAncestors,
+            isSkipped: true,
+          });
+          this._graph.addEdge({ from: this._graphId(step), to: id, label });
+        });
+      }
+    }
+  }
+
+  /**
+   * Runs a single stage of a step, retrying it according to the step's retry policy
+   * or the default retry policy of the executor.
+   * The number of attempts is recorded in the graph if the stage needed more than one attempt.
+   * Each attempt is limited by the stage timeout and the execution deadline, if there are any.
+   *
+   * @param step - The step the stage belongs to.
+   * @param stage - The stage being executed.
+   * @param handlers - The handlers of the step.
+   * @param fn - The function that runs the stage with the given handlers.
+   * @returns The result of the first successful attempt.
+   * @throws The error of the last attempt if the stage could not succeed.
+   */
+  private async _runStage<R>(
+    step: Step<C>,
+    stage: StepStage,
+    handlers: IHandlers<C>,
+    fn: (handlers: IHandlers<C>) => Promise<R>,
+  ): Promise<R> {
+    // Only the executes are throttled, the other stages are not expected to call rate limited services
+    const limiter = stage === 'execute' ? this._rateLimiterOf(step) : undefined;
+    const throttled = () =>
+      limiter && (this._records.get(stepId(step))?.throttled ?? 0);
+
+    this._setRecord(step, { stage });
+    const startedAt = Date.now();
+    this._events.emit(`step:${stage}:start`, {
+      ...this._stepEvent(step),
+      stage,
+    });
+
+    const policy = step.retry ?? this._retry;
+    const maxAttempts =
+      policy && (policy.stages?.includes(stage) ?? true)
+        ? Math.max(policy.maxAttempts ?? 1, 1)
+        : 1;
+
+    const fail = (attempts: number, error: unknown) => {
+      if (attempts > 1 && this._graph.enabled) {
+        this._graph.setAttempts(this._graphId(step), stage, attempts);
+      }
+
+      this._events.emit(`step:${stage}:end`, {
+        ...this._stepEvent(step),
+        stage,
+        duration: Date.now() - startedAt,
+        attempts,
+        throttled: throttled(),
+        error,
+      });
+
+      return error;
+    };
+
+    let lastError: unknown;
+    for (let attempt = 1; ; attempt++) {
+      if (attempt > 1) {
+        // Every retry takes a token too, as it calls the service again. It keeps the slot of the step
+        if (limiter) {
+          await this._throttle(step, stage, limiter);
+        }
+
+        // The waits are cut short by an immediate cancellation, no new attempt is made after them
+        if (this._stopImmediate || this._cancelled) {
+          throw fail(attempt - 1, lastError);
+        }
+      }
+
+      this._countAttempt(step, stage);
+      try {
+        const result = await this._runAttempt(step, stage, handlers, (h) =>
+          this._intercept(step, stage, attempt, h, () => fn(h)),
+        );
+        if (attempt > 1 && this._graph.enabled) {
+          this._graph.setAttempts(this._graphId(step), stage, attempt);
+        }
+
+        this._events.emit(`step:${stage}:end`, {
+          ...this._stepEvent(step),
+          stage,
+          duration: Date.now() - startedAt,
+          attempts: attempt,
+          throttled: throttled(),
+        });
+
+        return result;
+      } catch (error) {
+        const retry =
+          attempt < maxAttempts &&
+          !this._stopImmediate &&
+          !this._cancelled &&
+          (policy?.retryOn?.(error, attempt) ?? true);
+
+        if (!retry) {
+          throw fail(attempt, error);
+        }
+
+        const delay = backoffDelay(policy!, attempt);
+        this._events.emit('step:retry', {
+          ...this._stepEvent(step),
+          stage,
+          attempt,
+          error,
+          delay,
+        });
+
+        lastError = error;
+        await sleep(delay, this._abort.signal);
+      }
+    }
+  }
+
+  /**
+   * Takes a token from the rate limiter of the step, and waits for it if the bucket is empty.
+   * The wait is added to the record of the step.
+   *
+   * @param step - The rate limited step.
+   * @param stage - The stage the token is taken for.
+   * @param limiter - The rate limiter of the step.
+   */
+  private async _throttle(
+    step: Step<C>,
+    stage: StepStage,
+    limiter: RateLimiter,
+  ): Promise<void> {
+    const wait = limiter.take();
+    if (wait <= 0) {
+      return;
+    }
+
+    this._events.emit('step:throttled', {
+      ...this._stepEvent(step),
+      stage,
+      limiter: typeof step.rateLimit === 'string' ? step.rateLimit : undefined,
+      wait,
+    });
+    await sleep(wait, this._abort.signal);
+    this._setRecord(step, {
+      throttled: (this._records.get(stepId(step))?.throttled ?? 0) + wait,
+    });
+  }
+
+  /**
+   * Returns the rate limiter the step opted into with its `rateLimit`, if any.
+   *
+   * @param step - The step to return the rate limiter of.
+   * @returns The rate limiter, or undefined if the step is not rate limited.
+   * @throws Error if the rate limiter of the step is not configured.
+   */
+  private _rateLimiterOf(step: Step<C>): RateLimiter | undefined {
+    const { rateLimit } = step;
+    if (rateLimit === undefined || rateLimit === false) {
+      return undefined;
+    }
+
+    const limiter =
+      rateLimit === true
+        ? this._rateLimiter
+        : this._rateLimiters.get(rateLimit);
+    if (!limiter) {
+      throw new Error(
+        rateLimit === true
+          ? `Step "${step.name}" is rate limited, but the rateLimit option is not set.`
+          : `Unknown rate limiter "${rateLimit}".`,
+      );
+    }
+
+    return limiter;
+  }
+
+  /**
+   * Runs a single attempt of a stage within the stage timeout and the execution deadline.
+   * On timeout, the signal passed to the stage is aborted and the attempt fails with a `StepTimeoutError`.
+   *
+   * @param step - The step the stage belongs to.
+   * @param stage - The stage being executed.
+   * @param handlers - The handlers of the step.
+   * @param fn - The function that runs the stage with the given handlers.
+   * @returns The result of the attempt.
+   */
+  private _runAttempt<R>(
+    step: Step<C>,
+    stage: StepStage,
+    handlers: IHandlers<C>,
+    fn: (handlers: IHandlers<C>) => Promise<R>,
+  ): Promise<R> {
+    const timeout = step.timeout ?? this._timeout;
+    const stageTimeout =
+      typeof timeout === 'number' ? timeout : timeout?.[stage];
+    const remaining =
+      this._deadlineAt !== undefined
+        ? this._deadlineAt - Date.now()
+        : undefined;
+
+    if (stageTimeout === undefined && remaining === undefined) {
+      return fn(handlers);
+    }
+
+    // The deadline timer might not have fired yet, the stage is not called without any time left
+    if (remaining !== undefined && remaining <= 0) {
+      this._handlers.stopImmediate();
+      return Promise.reject(
+        new StepTimeoutError(step.name, stage, 0, 'deadline'),
+      );
+    }
+
+    const isDeadline =
+      remaining !== undefined &&
+      (stageTimeout === undefined || remaining < stageTimeout);
+    const ms = isDeadline ? remaining : stageTimeout!;
+
+    return withTimeout(
+      (signal) => fn({ ...handlers, signal }),
+      ms,
+      () => {
+        if (isDeadline) {
+          // The deadline timer might not have fired yet, no new steps should start from here on
+          this._handlers.stopImmediate();
+          return new StepTimeoutError(step.name, stage, ms, 'deadline');
+        }
+
+        return new StepTimeoutError(step.name, stage, ms);
+      },
+      handlers.signal,
+    );
+  }
+
+  /**
+   * Records the completed stage of a step and persists the progress, if there is a state store.
+   *
+   * @param step - The step that completed the stage.
+   * @param path - The path of the step.
+   * @param stage - The completed stage.
+   */
+  private _saveCheckpoint(
+    step: Step<C>,
+    path: string,
+    stage: StepStage,
+  ): Promise<void> {
+    if (!this._stateStore) {
+      return Promise.resolve();
+    }
+
+    const checkpoint: StepCheckpoint = { name: step.name, stage };
+    if (this._outputs.has(stepId(step))) {
+      checkpoint.output = this._outputs.get(stepId(step));
+    }
+    this._checkpoints[path] = checkpoint;
+    return this._checkpoint();
+  }
+
+  /**
+   * Persists the current progress of the execution, if there is a state store.
+   * Saves are performed one after another, so an older state never overwrites a newer one.
+   *
+   * @param status - (Optional) The final status, if the execution has finished.
+   */
+  private _checkpoint(status?: ExecutionStatus): Promise<void> {
+    const store = this._stateStore;
+    if (!store || !this._runId) {
+      return Promise.resolve();
+    }
+
+    const state: ExecutionState<C> = {
+      runId: this._runId,
+      context: this._context.get(),
+      steps: { ...this._checkpoints },
+      finished: status !== undefined,
+      status,
+      updatedAt: Date.now(),
+    };
+
+    const saving = this._saving.then(() => store.save(state));
+    this._saving = saving.catch(() => {});
+    return saving;
+  }
+
+  /**
+   * Calls the rollback of the given step and emits the `step:rollback` event.
+   *
+   * @param step - The step to roll back.
+   * @param handlers - The handlers passed to the rollback.
+   * @throws The error thrown by the rollback.
+   */
+  private async _rollback(
+    step: Step<C>,
+    handlers: IHandlers<C>,
+  ): Promise<void> {
+    const startedAt = Date.now();
+    this._countAttempt(step, 'rollback');
+    // A rollback is attempted again when its error handler decides to retry it
+    const attempt = this._attempts.get(`${stepId(step)}:rollback`)!;
+    try {
+      await this._intercept(step, 'rollback', attempt, handlers, () =>
+        step.rollback(this._contextOf(step), handlers),
+      );
+      this._events.emit('step:rollback', {
+        ...this._stepEvent(step),
+        duration: Date.now() - startedAt,
+      });
+    } catch (error) {
+      this._events.emit('step:rollback', {
+        ...this._stepEvent(step),
+        duration: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
   }
 
   /**
-   * @returns An object containing nodes and edges for the execution graph.
+   * Counts an attempt of a stage, so the error handlers know how many attempts the stage took.
+   *
+   * @param step - The step the stage belongs to.
+   * @param stage - The attempted stage.
    */
-  get graphData(): GraphData {
-    return this._graph.data;
+  private _countAttempt(step: Step<C>, stage: StepStage | 'rollback'): void {
+    const key = `${stepId(step)}:${stage}`;
+    this._attempts.set(key, (this._attempts.get(key) ?? 0) + 1);
   }
 
   /**
-   * Asynchronously starts the execution of all provided steps concurrently.
-   * It handles preparation, before queue execution, current step execution,
-   * after queue execution, and finalization of all the steps.
-   * Stops execution if an immediate stop is requested or an error occurs.
-   * But the steps that are executed in parallel might still be executed till the end
+   * Calls a stage of a step through the middleware.
    *
-   * @returns A Promise that resolves when all step executions are completed.
+   * @param step - The step the stage belongs to.
+   * @param stage - The stage being called.
+   * @param attempt - The attempt of the stage, starting from 1.
+   * @param handlers - The handlers passed to the stage.
+   * @param call - The function that calls the stage itself.
+   * @returns What the middleware resolve with, the result of the stage unless a middleware replaced it.
    */
-  async start(): Promise<void> {
-    // All the provided steps will start executing concurrently
-    await Promise.all(this._steps.map((s) => this._start(s, {})));
+  private _intercept<R>(
+    step: Step<C>,
+    stage: MiddlewareStage,
+    attempt: number,
+    handlers: IHandlers<C>,
+    call: () => Promise<R>,
+  ): Promise<R> {
+    if (this._middleware.length === 0) {
+      return call();
+    }
+
+    const { stepName, stepId, ancestors } = this._stepEvent(step);
+    return runMiddleware(
+      // A middleware added or removed meanwhile only affects the next calls
+      [...this._middleware],
+      {
+        stepName,
+        stepId,
+        ancestors,
+        stage,
+        attempt,
+        context: this._context.get(),
+        handlers,
+      },
+      call,
+    ) as Promise<R>;
   }
 
   /**
-   * Asynchronously starts the execution of a step.
-   * Handles preparation, before queue execution, current step execution, after queue execution, and finalization.
-   * Stops execution if an immediate stop is requested or an error occurs.
+   * Calls the rollback of the given step and lets the rollback error handler decide what to do
+   * when it fails. The rollback is called again as long as the decision is to retry.
    *
-   * @param step - The step to be executed.
-   * @param previous - The previous step that leads to the current step.
-   * @param ancestors - An array of step names representing the ancestors of the current step.
-   * @returns A Promise that resolves when the step and its related steps are executed.
+   * @param step - The step to roll back.
+   * @param handlers - The handlers passed to the rollback, with a fresh signal if theirs is aborted.
+   * @returns The error of the last attempt if the rollback failed, undefined otherwise.
    */
-  private async _start(
+  private async _runRollback(
     step: Step<C>,
-    options: ExecutionOptions<C>,
-  ): Promise<void> {
-    const { ancestors } = options;
-
-    // Validate circular dependency
-    const currentAncestors = ancestors
-      ? [...ancestors, step.name]
-      : [step.name];
-    this._checkRepetitions(currentAncestors, step.name);
-
-    // Creates a new node for the current step and links it to the previous one
-    if (this._graph.enabled) {
-      this._updateGraph(step, options);
+    handlers: IHandlers<C>,
+  ): Promise<{ error: unknown } | undefined> {
+    // A rollback cleans up after a cancellation too, so it does not get the aborted signal
+    if (handlers.signal.aborted) {
+      handlers = { ...handlers, signal: new AbortController().signal };
     }
 
-    // If any step other requested an immediate stop
-    if (this._stopImmediate) {
-      return this._stopImmediateFinalize(step);
+    for (;;) {
+      try {
+        await this._rollback(step, handlers);
+        return undefined;
+      } catch (error) {
+        if (this._defaultErrorHandler(error, step, 'rollback') !== 'retry') {
+          return { error };
+        }
+      }
     }
+  }
 
-    // Preparations
-    try {
-      await step.prepare(this._context.get(), this._handlers);
-    } catch (error) {
-      if (this._defaultErrorHandler(error, step, 'prepare')) {
-        return;
+  /**
+   * Rolls back all the successfully executed steps in reverse completion order.
+   * A failing rollback does not prevent the remaining steps from being rolled back.
+   */
+  private async _compensate(): Promise<void> {
+    const executed = this._executed.reverse();
+    this._executed = [];
+
+    for (const step of executed) {
+      const result: CompensationResult = {
+        stepName: step.name,
+        stepId: stepId(step),
+        status: 'compensated',
+      };
+
+      // The handlers of the step, so the updates and the stop of the rollback are attributed to the step
+      const record = this._records.get(stepId(step))!;
+      const failure = await this._runRollback(
+        step,
+        this._stepHandlers(step, record, new AbortController().signal),
+      );
+      if (failure) {
+        result.status = 'failed';
+        result.error = failure.error;
       }
+
+      this._compensations.push(result);
     }
+  }
 
-    // Executing before queue recursively
-    for (let queueOrder = 0; !isBeforeEmpty(step); queueOrder++) {
-      const steps = dequeueBefore(step);
-      await Promise.all(
-        steps.map((s) =>
-          this._start(s, {
-            previous: step,
-            ancestors: currentAncestors,
-            queueOrder,
-          }),
-        ),
+  /**
+   * Creates the handlers passed to the stages of a step.
+   * They behave the same as the executor handlers, but the events they cause carry the step information.
+   *
+   * @param record - The execution record of the step.
+   * @param signal - The abort signal of the step.
+   * @returns The handlers of the step.
+   */
+  private _stepHandlers(
+    step: Step<C>,
+    record: StepRecord,
+    signal: AbortSignal,
+  ): IHandlers<C> {
+    return {
+      stopImmediate: () => {
+        this._stoppedBy ??= record;
+        this._handlers.stopImmediate();
+      },
+      contextUpdater: createContextUpdater((updater) =>
+        this._updateContext(updater, record, step.writes),
+      ),
+      signal,
+      outputOf: this._handlers.outputOf,
+    };
+  }
+
+  /**
+   * Updates the shared context and emits the `context:updated` event.
+   *
+   * @param updater - The function that returns the changes of the context.
+   * @param record - (Optional) The execution record of the step that updates the context.
+   */
+  private _updateContext(
+    updater: (context: Readonly<C>) => Partial<C>,
+    record?: StepRecord,
+    writes?: (keyof C)[],
+  ): void {
+    const previous = this._context.get();
+    const read = record && this._reads.get(record.id);
+    let written: (keyof C)[] = [];
+    const conflicts: ContextConflict[] = [];
+    const updated = this._context.update((copy) => {
+      // Keys the updater reads from the current context are not stale
+      const fresh = new Set<PropertyKey>();
+      let reading = true;
+      const argument = new Proxy(copy, {
+        get: (target, key, receiver) => {
+          if (reading) {
+            fresh.add(key);
+          }
+          return Reflect.get(target, key, receiver);
+        },
+      });
+      const changes = updater(argument);
+      reading = false;
+
+      // The updater gets a copy it may change and return, the current values are the ones before it.
+      // Keys read or returned with the copy as they are, e.g. with `{ ...context, key: value }`, are not written.
+      // A value equal to the current one without reading it, e.g. `{ count: 1 }` to sum, is still merged
+      const keys = (Object.keys(changes) as (keyof C)[]).filter(
+        (k) =>
+          !(
+            (fresh.has(k) || changes === argument) &&
+            changes[k] === previous[k]
+          ),
       );
+      written = keys;
+      const undeclared = writes ? keys.filter((k) => !writes.includes(k)) : [];
+      if (undeclared.length > 0) {
+        throw new UndeclaredWriteError(
+          record?.name ?? '',
+          undeclared as string[],
+        );
+      }
 
-      // Before-executions always come back to the current step, hence we add the coming back edge to  the graph
-      if (this._graph.enabled) {
-        for (const s of steps) {
-          this._updateGraph(step, {
-            ...options,
-            previous: s,
-            queueOrder: undefined, // Coming-back-edges orders are same as initial order
-          });
+      const merged: Partial<C> = {};
+      for (const key of keys) {
+        const strategy: MergeStrategy = this._merge[key] ?? 'replace';
+        if (
+          read &&
+          !fresh.has(key) &&
+          read[key] !== previous[key] &&
+          !isCommutative(strategy)
+        ) {
+          const conflict: ContextConflict = {
+            key: String(key),
+            stepName: record.name,
+            stepId: record.id,
+            read: read[key],
+            current: previous[key],
+            value: changes[key],
+            strategy: typeof strategy === 'function' ? 'custom' : strategy,
+          };
+          if (strategy === 'error') {
+            throw new ContextConflictError(conflict);
+          }
+          conflicts.push(conflict);
         }
-      }
 
-      // If any before step of the current step or highest priority step requested an immediate stop
-      if (this._stopImmediate) {
-        return this._stopImmediateFinalize(step);
+        merged[key] = mergeValue(
+          strategy,
+          previous[key],
+          changes[key],
+        ) as C[keyof C];
       }
+
+      return merged;
+    });
+
+    // The context is only replaced once the update is valid
+    this._context = this._validate
+      ? new ImmutableContext(
+          this._validated(updated.get(), record?.name),
+          this._contextOptions,
+        )
+      : updated;
+    // Only the writes that were applied are recorded
+    this._conflicts.push(...conflicts);
+
+    // The step knows the values it wrote, writing them again is not based on a stale read
+    if (read) {
+      const current = this._context.get();
+      this._reads.set(record.id, {
+        ...read,
+        ...Object.fromEntries(written.map((k) => [k, current[k]])),
+      });
     }
+    const changes = this._diff(previous);
+    if (this._history) {
+      this._recordVersion(changes, record);
+    }
+    this._events.emit('context:updated', {
+      stepName: record?.name,
+      stepId: record?.id,
+      previous,
+      context: this._context.get(),
+      changed: changes.map((c) => c.key as keyof C),
+      timestamp: Date.now(),
+    });
+  }
 
-    // Executing the current step
-    const immediateSteps: Step<C>[] = [];
-    try {
-      await this._concurrencyManager.acquire();
-      const result = await step.execute(this._context.get(), this._handlers);
+  /**
+   * Lists the keys whose values differ between the given context and the current one.
+   *
+   * @param previous - The context to compare the current one with.
+   * @returns The changed keys with their previous and current values.
+   */
+  private _diff(previous: Readonly<C>): ContextChange[] {
+    const context = this._context.get();
+    const keys = new Set([...Object.keys(previous), ...Object.keys(context)]);
+    return [...keys]
+      .filter((k) => context[k as keyof C] !== previous[k as keyof C])
+      .map((key) => ({
+        key,
+        previous: previous[key as keyof C],
+        value: context[key as keyof C],
+      }));
+  }
 
-      if (result) {
-        immediateSteps.push(...(Array.isArray(result) ? result : [result]));
-      }
-    } catch (error) {
-      if (this._defaultErrorHandler(error, step, 'execute')) {
-        await step.rollback(this._context.get(), this._handlers);
-        return;
-      }
-    } finally {
-      this._concurrencyManager.release();
+  /**
+   * Adds the current context to the history.
+   *
+   * @param changes - The keys changed since the previous version.
+   * @param record - (Optional) The execution record of the step that updated the context.
+   */
+  private _recordVersion(changes: ContextChange[], record?: StepRecord): void {
+    this._history!.push({
+      version: this._history!.length,
+      context: this._context.get(),
+      stepName: record?.name,
+      stepId: record?.id,
+      stage: record?.stage,
+      changes,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Runs the context validator, if there is one.
+   *
+   * @param context - The context to validate.
+   * @param stepName - (Optional) The name of the step that updated the context.
+   * @returns The context returned by the validator, or the given context without a validator.
+   * @throws ContextValidationError if the validator throws.
+   */
+  private _validated(context: C, stepName?: string): C {
+    if (!this._validate) {
+      return context;
     }
 
-    // Immediate steps returned by the current execute function should be executed immediately
-    // even before the after queue steps.
-    await Promise.all(
-      immediateSteps.map((s) =>
-        this._start(s, { previous: step, ancestors: currentAncestors }),
-      ),
-    );
+    try {
+      return this._validate(context);
+    } catch (error) {
+      throw new ContextValidationError(error, stepName);
+    }
+  }
 
-    // If any of the immediate steps requested an immediate stop
-    if (this._stopImmediate) {
-      return this._stopImmediateFinalize(step);
+  /**
+   * Builds the request for the resources the execute of a step needs.
+   *
+   * @param step - The step.
+   * @returns The resource request, undefined if the step needs no resources.
+   */
+  private _resourcesOf(step: Step<C>): ResourceRequest | undefined {
+    if (!step.resources) {
+      return undefined;
     }
 
-    // Executing after queue recursively
-    for (let queueOrder = 0; !isAfterEmpty(step); queueOrder++) {
-      const steps = dequeueAfter(step);
-      await Promise.all(
-        steps.map((s) =>
-          this._start(s, {
-            previous: step,
-            ancestors: currentAncestors,
-            queueOrder,
-          }),
+    const { pools, keys } = step.resources;
+    return {
+      pools,
+      // A key listed twice would wait for itself
+      keys: [
+        ...new Set(
+          typeof keys === 'function' ? keys(this._context.get()) : keys,
         ),
-      );
+      ],
+    };
+  }
 
-      // If any highest priority step requested an immediate stop
-      if (this._stopImmediate) {
-        return this._stopImmediateFinalize(step);
-      }
+  /**
+   * Builds the context passed to the stages of a step.
+   *
+   * @param step - The step.
+   * @returns The keys of the context the step reads, or the whole context if it did not declare them.
+   */
+  private _contextOf(step: Step<C>): Readonly<C> {
+    const context = this._context.get();
+    this._reads.set(stepId(step), context);
+    if (!step.reads) {
+      return context;
     }
 
-    // Wrapping up with final
-    try {
-      await step.final(this._context.get(), this._handlers);
-    } catch (error) {
-      if (this._defaultErrorHandler(error, step, 'final')) {
-        return;
-      }
+    return Object.freeze(
+      Object.fromEntries(
+        step.reads.filter((k) => k in context).map((k) => [k, context[k]]),
+      ),
+    ) as Readonly<C>;
+  }
+
+  /**
+   * Builds the common payload of the step events.
+   *
+   * @param step - The step the event is about.
+   * @returns The event payload.
+   */
+  private _stepEvent(step: Step<C>): StepEvent {
+    const record = this._records.get(stepId(step));
+    return {
+      stepName: step.name,
+      stepId: stepId(step),
+      ancestors: record?.ancestors,
+      queueOrder: record?.queueOrder,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Emits the `queue:dequeued` event for the steps dequeued by the given step.
+   *
+   * @param step - The step that owns the queue.
+   * @param queue - The queue the steps were taken from.
+   * @param steps - The dequeued steps.
+   * @param order - (Optional) The order of the dequeued group within the queue.
+   */
+  private _emitDequeued(
+    step: Step<C>,
+    queue: 'before' | 'after' | 'immediate' | 'branch' | 'forEach',
+    steps: Step<C>[],
+    order?: number,
+  ): void {
+    this._events.emit('queue:dequeued', {
+      ...this._stepEvent(step),
+      queue,
+      order,
+      steps: steps.map((s) => ({ stepName: s.name, stepId: stepId(s) })),
+    });
+  }
+
+  /**
+   * Updates the execution record of the given step, if there is one.
+   *
+   * @param step - The step whose record should be updated.
+   * @param update - The fields to update.
+   */
+  private _setRecord(step: Step<C>, update: Partial<StepRecord>): void {
+    const record = this._records.get(stepId(step));
+    if (record) {
+      Object.assign(record, update);
+    }
+  }
+
+  /**
+   * Builds the result of the execution from the collected records and errors.
+   *
+   * @param duration - The duration of the whole execution.
+   * @returns The execution result.
+   */
+  private _result(duration: number): ExecutionResult<C> {
+    let status: ExecutionStatus = 'completed';
+    if (this._cancelled) {
+      status = 'cancelled';
+    } else if (this._errors.some((e) => e.stopped)) {
+      status = 'failed';
+    } else if (this._stopImmediate) {
+      status = 'stopped';
+    }
+
+    const result: ExecutionResult<C> = {
+      status,
+      context: this._context.get(),
+      steps: Array.from(this._records.values(), (r) => ({ ...r })),
+      errors: [...this._errors],
+      compensations: [...this._compensations],
+      conflicts: [...this._conflicts],
+      duration,
+    };
+    if (this._graph.enabled) {
+      result.graph = this._graph.data;
     }
+
+    return result;
   }
 
   /**
@@ -255,36 +2595,210 @@ export class StepExecutor<C extends IContext> {
     }
   }
 
+  /**
+   * Checks that no sibling of a step with a key has the same key, as they would share the path,
+   * the graph node and the checkpoint of the step.
+   *
+   * @param step - The step to check.
+   * @param path - The path of the step.
+   * @param paths - The paths taken so far, the path of the step is added to them.
+   * @throws Error if the path of the step is already taken by a sibling with the same key.
+   */
+  private _checkKey(
+    step: Step<C>,
+    path: string,
+    paths: Set<string>,
+  ): void | never {
+    if (step.key !== undefined && paths.has(path)) {
+      throw new Error(
+        `Step "${step.name}" has the key "${step.key}" of one of its siblings. The keys of sibling steps have to be unique.`,
+      );
+    }
+
+    paths.add(path);
+  }
+
   /**
    * Updates the graph with a new node representing the current step and adds an edge linking it to the previous step if it exists.
    *
    * @param current - The current step to update the graph with.
    * @param options - The execution options including the previous step, ancestors, and queue order.
+   * @param isReturn - (Optional) True if the edge comes back from a before step to its parent.
    * @returns The newly created graph node representing the current step.
    */
   private _updateGraph(
     current: Step<C>,
-    { previous, ancestors, queueOrder }: ExecutionOptions<C>,
+    { previous, ancestors, queueOrder, branch }: ExecutionOptions<C>,
+    isReturn = false,
   ): void {
+    const record = this._records.get(stepId(current));
     this._graph.addNode({
-      id: stepId(current),
+      id: this._graphId(current),
       label: current.name,
+      key: current.key,
+      path: record?.path,
       ancestors,
       queueOrder,
     });
 
     if (previous) {
-      this._graph.addEdge({
-        from: stepId(previous),
-        to: stepId(current),
+      const edge: GraphEdge = {
+        from: this._graphId(previous),
+        to: this._graphId(current),
         queueOrder,
+        label: branch,
+      };
+      if (isReturn) {
+        edge.isReturn = true;
+      }
+      this._graph.addEdge(edge);
+    }
+  }
+
+  /**
+   * Adds the graph of a sub-workflow to the graph as a cluster of the sub-workflow step.
+   * The ids of the nested nodes are prefixed with the id of the sub-workflow step,
+   * and its root nodes are linked to the sub-workflow step.
+   *
+   * @param step - The sub-workflow step.
+   * @param graph - (Optional) The graph of the nested execution.
+   */
+  private _embedSubflow(step: SubflowStep<C>, graph?: GraphData): void {
+    if (!this._graph.enabled || !graph) {
+      return;
+    }
+
+    const cluster = this._graphId(step);
+    const id = (nested: string) => `${cluster}/${nested}`;
+    const targets = new Set(
+      graph.edges.filter((e) => !e.isReturn).map((e) => e.to),
+    );
+
+    for (const node of graph.nodes) {
+      this._graph.addNode({
+        ...node,
+        id: id(node.id),
+        // Nested clusters stay within their own sub-workflow step
+        cluster: node.cluster ? id(node.cluster) : cluster,
       });
+      if (!targets.has(node.id)) {
+        this._graph.addEdge({ from: cluster, to: id(node.id) });
+      }
+    }
+    for (const edge of graph.edges) {
+      this._graph.addEdge({ ...edge, from: id(edge.from), to: id(edge.to) });
+    }
+  }
+
+  /**
+   * Builds the path of a step from the path of its parent and its own key or position.
+   *
+   * @param step - The step to build the path for.
+   * @param parentPath - The path of the parent step, undefined for the root steps.
+   * @param position - The position of the step within its parent, e.g. `a0.1` for the
+   * second step of the first group in the after queue.
+   * @returns The path of the step.
+   */
+  private _path(
+    step: Step<C>,
+    parentPath: string | undefined,
+    position: string,
+  ): string {
+    const segment = step.key ?? `${position}:${step.name}`;
+    return parentPath ? `${parentPath}/${segment}` : segment;
+  }
+
+  /**
+   * @param step - A step that has been started.
+   * @returns The id of the graph node of the given step, depending on the `graph.ids` option.
+   */
+  private _graphId(step: Step<C>): string {
+    return this._nodeId(
+      step,
+      this._records.get(stepId(step))?.path ?? stepId(step),
+    );
+  }
+
+  /**
+   * @param step - A step, started or not.
+   * @param path - The path of the step.
+   * @returns The id of the graph node of the given step at the given path, depending on the `graph.ids` option.
+   */
+  private _nodeId(step: Step<C>, path: string): string {
+    return this._graphIds === 'path' ? path : stepId(step);
+  }
+
+  /**
+   * Cancels the execution. No new steps will be started after this point.
+   *
+   * @param mode - The cancellation mode.
+   * @param reason - (Optional) The reason of the cancellation.
+   */
+  private _cancel(mode: CancellationMode, reason?: unknown): void {
+    if (this._cancelled) {
+      return;
+    }
+
+    this._cancelled = true;
+    this._events.emit('executor:cancelled', {
+      mode,
+      reason,
+      timestamp: Date.now(),
+    });
+
+    if (mode === 'immediate') {
+      this._abort.abort(reason);
+    }
+  }
+
+  /**
+   * Checks if the execution of the given step should not continue,
+   * because a step requested an immediate stop or the execution was cancelled.
+   *
+   * @param step - The step being executed.
+   * @returns True if the execution of the step should not continue.
+   */
+  private _halted(step: Step<C>): boolean {
+    if (this._cancelled) {
+      this._cancelFinalize(step);
+      return true;
+    }
+
+    if (this._stopImmediate || isScopeHalted(this._scopes.get(stepId(step)))) {
+      this._stopImmediateFinalize(step);
+      return true;
+    }
+
+    return false;
+  }
+
+  private _cancelFinalize(step: Step<C>): void {
+    const record = this._records.get(stepId(step));
+    if (record?.status === 'running') {
+      record.status = 'cancelled';
+    }
+
+    if (this._graph.enabled) {
+      this._graph.setCancelled(this._graphId(step));
+    }
+  }
+
+  private _skip(step: Step<C>): void {
+    this._setRecord(step, { status: 'skipped' });
+
+    if (this._graph.enabled) {
+      this._graph.setSkipped(this._graphId(step));
     }
   }
 
   private _stopImmediateFinalize(step: Step<C>): void {
+    const record = this._records.get(stepId(step));
+    if (record?.status === 'running') {
+      record.status = 'stopped';
+    }
+
     if (this._graph.enabled) {
-      this._graph.setError(stepId(step));
+      this._graph.setError(this._graphId(step));
     }
   }
 
@@ -293,30 +2807,74 @@ export class StepExecutor<C extends IContext> {
    *
    * @param error - The error that occurred during the execution.
    * @param step - The step where the error occurred.
-   * @param stage - The stage of the step where the error occurred (prepare, execute, final).
-   * @returns A boolean indicating if the execution should continue.
-   * If true, the execution will immediately stop, otherwise continue assuming the error was handled.
+   * @param stage - The stage of the step where the error occurred (prepare, execute, final, rollback).
+   * @returns The decision of the error handler of the stage, `stop` if there is none.
+   * On `stop`, the execution, or the scope of the step, immediately stops.
    */
   private _defaultErrorHandler(
     error: unknown,
     step: Step<C>,
-    stage: StepStage,
-  ): boolean {
+    stage: StepStage | 'rollback',
+  ): ErrorDecision<C> {
+    // Errors thrown after an immediate cancellation are most likely caused by the aborted signal.
+    // Rollbacks are not given the aborted signal, so their errors are reported
+    if (stage !== 'rollback' && this._cancelled && this._abort.signal.aborted) {
+      this._cancelFinalize(step);
+      return 'stop';
+    }
+
     const fn = this._errorHandlers?.[stage];
-    if (fn) {
-      if (fn(error, step.name)) {
-        this._handlers.stopImmediate();
-        this._stopImmediateFinalize(step);
-        return true;
-      }
+    const record = this._records.get(stepId(step));
+    const returned = fn
+      ? fn(error, step.name, {
+          step,
+          stepId: stepId(step),
+          stage,
+          ancestors: record?.ancestors,
+          attempt: this._attempts.get(`${stepId(step)}:${stage}`) ?? 1,
+          context: this._context.get(),
+        })
+      : true;
+    let decision: ErrorDecision<C> =
+      returned === true ? 'stop' : returned === false ? 'continue' : returned;
+    // Only stopping, continuing and retrying make sense for a failed rollback
+    if (stage === 'rollback' && decision !== 'stop' && decision !== 'retry') {
+      decision = 'continue';
+    }
+
+    const stop = decision === 'stop';
+    // Within a scope, the error stops only the steps of the scope
+    const scope = this._scopes.get(stepId(step));
+
+    this._errors.push({
+      stepName: step.name,
+      stepId: stepId(step),
+      stage,
+      error,
+      stopped: stop && !scope,
+    });
+    this._setRecord(step, { error, ...(stop && { status: 'failed' }) });
+    this._events.emit('step:error', {
+      ...this._stepEvent(step),
+      stage,
+      error,
+      stopped: stop && !scope,
+    });
 
-      return false;
+    if (!fn) {
+      console.error({ stepName: step.name, stage, error });
     }
 
-    console.error({ stepName: step.name, stage, error });
-    this._handlers.stopImmediate();
-    this._stopImmediateFinalize(step);
-    return true;
+    if (stop && scope) {
+      scope.fail(error);
+      this._stopImmediateFinalize(step);
+    } else if (stop) {
+      this._stoppedBy ??= record;
+      this._handlers.stopImmediate();
+      this._stopImmediateFinalize(step);
+    }
+
+    return decision;
   }
 }
 
@@ -350,8 +2908,8 @@ export class StepExecutor<C extends IContext> {
 export function createExecutor<C extends IContext>(
   s: Step<C> | Step<C>[],
   c: C,
-  errorHandlers?: ErrorHandlers,
-  options?: Options,
+  errorHandlers?: ErrorHandlers<C>,
+  options?: Options<C>,
 ) {
   return new StepExecutor(s, c, errorHandlers, options);
 }
@@ -1,11 +1,121 @@
+import { ExecutionError } from './errors';
+import { BackoffOptions } from './helpers';
 import { IContext, IHandlers } from './immutable-context';
-import { Step } from './step';
+import { RetryPolicy, Step, StepResources, StepTimeout } from './step';
+import {
+  createExecutor,
+  ErrorHandlers,
+  ExecutionResult,
+  Options,
+  StepStatus,
+} from './step-executor';
 
 /**
  * Interface for defining a step.
  * Implement this interface to define the required functions for step execution and it's different stages (prepare, final, rollback).
  */
-export interface IStep<C extends IContext = IContext> {
+export interface IStep<C extends IContext = IContext, O = unknown> {
+  /**
+   * (Optional) A user defined key for the step. It is used instead of the position of the step
+   * in its path, so graphs, logs and persisted state can be correlated across runs.
+   * It has to be unique among the siblings of the step.
+   */
+  key?: string;
+
+  /**
+   * (Optional) Retry policy for the stages of this step.
+   * Overrides the default `retry` policy given in the StepExecutor options.
+   *
+   * @example
+   * ```typescript
+   *   const importStep: IStep<ImportContext> = {
+   *     retry: { maxAttempts: 3, backoff: 'exponential', delay: 100 },
+   *     async execute(context, handlers) {
+   *       await db.insert(context.document);
+   *     },
+   *   };
+   * ```
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * (Optional) Timeout in milliseconds for the stages of this step.
+   * A number applies to each stage, an object sets the timeout of each stage separately.
+   * When a stage times out, `handlers.signal` is aborted and a `StepTimeoutError` is passed to the error handlers.
+   * Overrides the default `timeout` given in the StepExecutor options.
+   */
+  timeout?: StepTimeout;
+
+  /**
+   * (Optional) Decides whether the step should be executed, evaluated against the current context
+   * right before `prepare`. A skipped step runs none of its stages and none of the steps in its queues.
+   *
+   * @example
+   * ```typescript
+   *   const notifyStep: IStep<ImportContext> = {
+   *     when: (context) => context.notify,
+   *     async execute(context, handlers) {
+   *       await mailer.send(context.owner);
+   *     },
+   *   };
+   * ```
+   */
+  when?(context: Readonly<C>): boolean;
+
+  /**
+   * (Optional) The keys of the context the step reads. If declared, the stages of the step
+   * receive only these keys of the context.
+   *
+   * @example
+   * ```typescript
+   *   const countStep: IStep<ImportContext> = {
+   *     reads: ['documents'],
+   *     writes: ['count'],
+   *     async execute(context, { contextUpdater }) {
+   *       contextUpdater(() => ({ count: context.documents.length }));
+   *     },
+   *   };
+   * ```
+   */
+  reads?: (keyof C)[];
+
+  /**
+   * (Optional) The keys of the context the step writes. If declared, updating any other key
+   * through the `contextUpdater` fails with an `UndeclaredWriteError`.
+   */
+  writes?: (keyof C)[];
+
+  /**
+   * (Optional) The resources the `execute` of the step needs besides its concurrency slot.
+   * They are acquired all at once, when all of them are available.
+   *
+   * @example
+   * ```typescript
+   *   const saveStep: IStep<DocumentContext> = {
+   *     resources: {
+   *       pools: { db: 2 },
+   *       keys: (context) => [`document:${context.documentId}`],
+   *     },
+   *     async execute(context) {
+   *       await db.save(context.document);
+   *     },
+   *   };
+   * ```
+   */
+  resources?: StepResources<C>;
+
+  /**
+   * (Optional) The priority of the step while waiting for a concurrency slot. Lower values are granted
+   * first, like the priorities of the queues. Overrides the priority the step was enqueued with.
+   */
+  priority?: number;
+
+  /**
+   * (Optional) The rate limiter each attempt of `execute` takes a token from. True for the
+   * `rateLimit` of the StepExecutor, or the name of one of its `rateLimiters`.
+   */
+  rateLimit?: boolean | string;
+
   /**
    * This is the only required function for you to implement when you implement the IStep interface.
    * This function should contain the logical action you need. The scope of the action is for you to decide.
@@ -15,12 +125,13 @@ export interface IStep<C extends IContext = IContext> {
    * the same StepExecutor will share this context. You can use it to share data between steps.
    * @param handlers The `handlers` contains some useful functions that you can use to handle the execution
    * for example `handlers.stopImmediate()` will stop all the executions immediately.
-   * @returns A promise that resolves to void, an array of steps, or a single step.
+   * @returns A promise that resolves to void, an array of steps, a single step, or the output of the step.
+   * The output can be read by the other steps with `handlers.outputOf(step)`.
    */
   execute(
     context: Readonly<C>,
     handlers: IHandlers<C>,
-  ): Promise<void | Step<C>[] | Step<C>>;
+  ): Promise<void | Step<C>[] | Step<C> | O>;
 
   /**
    * Will perform the rollback operation for the step, if an error occurs during the execution.
@@ -120,22 +231,61 @@ export interface IStep<C extends IContext = IContext> {
   final?(context: Readonly<C>, handlers: IHandlers<C>): Promise<void>;
 }
 
-class ConcreteStep<C extends IContext = IContext> extends Step<C> {
+class ConcreteStep<C extends IContext = IContext, O = unknown> extends Step<
+  C,
+  O
+> {
   name: string;
+  key?: string;
+  retry?: RetryPolicy;
+  timeout?: StepTimeout;
+  when?: (context: Readonly<C>) => boolean;
+  reads?: (keyof C)[];
+  writes?: (keyof C)[];
+  resources?: StepResources<C>;
+  priority?: number;
+  rateLimit?: boolean | string;
   execute(
     context: Readonly<C>,
     handlers: IHandlers<C>,
-  ): Promise<void | Step<C> | Step<C>[]> {
+  ): Promise<void | Step<C> | Step<C>[] | O> {
     throw new Error('Method not implemented.');
   }
 
-  constructor(name: string, step: IStep<C>) {
+  constructor(name: string, step: IStep<C, O>) {
     super();
     this.name = name;
     this.execute = step.execute;
     this.prepare = step.prepare ?? this.prepare;
     this.final = step.final ?? this.final;
     this.rollback = step.rollback ?? this.rollback;
+    this.key = step.key;
+    this.retry = step.retry;
+    this.timeout = step.timeout;
+    this.when = step.when;
+    this.reads = step.reads;
+    this.writes = step.writes;
+    this.resources = step.resources;
+    this.priority = step.priority;
+    this.rateLimit = step.rateLimit;
+  }
+}
+
+/**
+ * A step that selects one of its cases at runtime and executes the steps of that case.
+ * The selected case is the output of the step.
+ */
+export class BranchStep<C extends IContext = IContext> extends Step<C, string> {
+  constructor(
+    readonly name: string,
+    readonly cases: Record<string, Step<C>[]>,
+    private readonly _select: (context: Readonly<C>) => string | undefined,
+  ) {
+    super();
+  }
+
+  async execute(context: Readonly<C>): Promise<string | void> {
+    return this._select(context);
   }
 }
 
@@ -146,9 +296,366 @@ class ConcreteStep<C extends IContext = IContext> extends Step<C> {
  * @param step An object with the type of IStep representing the step logic.
  * @returns A new Step instance with the provided name and step function.
  */
-export function step<C extends IContext = IContext>(
+export function step<C extends IContext = IContext, O = unknown>(
+  name: string,
+  step: IStep<C, O>,
+): Step<C, O> {
+  return new ConcreteStep<C, O>(name, step);
+}
+
+/**
+ * Creates a step that executes one of two sub-trees, depending on the context.
+ * Both sub-trees are visible in the plan and in the graph, labeled `then` and `else`.
+ *
+ * @param name The name of the step.
+ * @param predicate Decides which sub-tree is executed.
+ * @param then The step or steps to execute if the predicate returns true.
+ * @param otherwise (Optional) The step or steps to execute if the predicate returns false.
+ * @returns A new Step instance.
+ */
+export function branch<C extends IContext = IContext>(
+  name: string,
+  predicate: (context: Readonly<C>) => boolean,
+  then: Step<C> | Step<C>[],
+  otherwise?: Step<C> | Step<C>[],
+): Step<C, string> {
+  return switchOn<C>(
+    name,
+    (context) => (predicate(context) ? 'then' : 'else'),
+    otherwise ? { then, else: otherwise } : { then },
+  );
+}
+
+/**
+ * Creates a step that executes one of the given cases, depending on the context.
+ * All the cases are visible in the plan and in the graph, labeled with their keys.
+ * If the selector returns a key without a case, no case is executed.
+ *
+ * @param name The name of the step.
+ * @param selector Returns the key of the case to execute.
+ * @param cases The step or steps of each case by their keys.
+ * @returns A new Step instance.
+ */
+export function switchOn<C extends IContext = IContext>(
+  name: string,
+  selector: (context: Readonly<C>) => string | undefined,
+  cases: Record<string, Step<C> | Step<C>[]>,
+): Step<C, string> {
+  const normalized: Record<string, Step<C>[]> = {};
+  for (const [key, steps] of Object.entries(cases)) {
+    normalized[key] = Array.isArray(steps) ? steps : [steps];
+  }
+
+  return new BranchStep<C>(name, normalized, selector);
+}
+
+export type ForEachMode = 'failFast' | 'collectAll';
+
+export interface ForEachOptions {
+  /**
+   * Maximum number of items executed at the same time. Default is no limit.
+   * The concurrency limit of the StepExecutor still applies to each `execute`.
+   */
+  concurrency?: number;
+  /**
+   * What happens when the steps of an item fail.
+   * - `failFast`: The items that have not finished are stopped and the forEach step fails.
+   * - `collectAll`: The other items continue and the failures are gathered in the results.
+   *
+   * Default is `failFast`.
+   */
+  mode?: ForEachMode;
+}
+
+/**
+ * The result of a single item of a forEach step.
+ */
+export interface ForEachItemResult<T = unknown, O = unknown> {
+  item: T;
+  index: number;
+  /**
+   * `failed` if any step of the item failed, otherwise the status of the item step.
+   * Items never started, because the forEach step was stopped, are `stopped`.
+   */
+  status: StepStatus;
+  output?: O;
+  error?: unknown;
+}
+
+/**
+ * A step that executes one step per item, selected from the context at runtime.
+ * The results of the items are the output of the step.
+ */
+export class ForEachStep<
+  C extends IContext = IContext,
+  T = unknown,
+  O = unknown,
+> extends Step<C, ForEachItemResult<T, O>[]> {
+  constructor(
+    readonly name: string,
+    readonly items: (context: Readonly<C>) => T[],
+    readonly create: (item: T, index: number) => Step<C, O>,
+    readonly options: ForEachOptions = {},
+  ) {
+    super();
+  }
+
+  async execute(): Promise<void> {}
+}
+
+/**
+ * Creates a step that executes one step per item. The items are selected from the context
+ * right after the `execute` of the step, and the item steps run before its after queue.
+ *
+ * @example
+ * ```typescript
+ *   const indexAll = forEach<ImportContext, Document, number>(
+ *     'IndexDocuments',
+ *     (context) => context.documents,
+ *     (document) => indexDocument(document),
+ *     { concurrency: 5, mode: 'collectAll' },
+ *   );
+ * ```
+ *
+ * @param name The name of the step.
+ * @param items Selects the items from the context.
+ * @param create Creates a new step for each item. It must not return the same step instance twice.
+ * @param options (Optional) The parallelism limit and the error policy.
+ * @returns A new Step instance, whose output is the result of each item.
+ */
+export function forEach<
+  C extends IContext = IContext,
+  T = unknown,
+  O = unknown,
+>(
+  name: string,
+  items: (context: Readonly<C>) => T[],
+  create: (item: T, index: number) => Step<C, O>,
+  options?: ForEachOptions,
+): Step<C, ForEachItemResult<T, O>[]> {
+  return new ForEachStep<C, T, O>(name, items, create, options);
+}
+
+export interface LoopOptions<C extends IContext = IContext, O = unknown> {
+  /**
+   * (Optional) Checked before each iteration. The loop ends when it returns false.
+   *
+   * @param context The current context.
+   * @param iteration The iteration about to start, starting from 0.
+   */
+  while?: (context: Readonly<C>, iteration: number) => boolean;
+  /**
+   * (Optional) Checked after each iteration. The loop ends when it returns true.
+   *
+   * @param context The current context.
+   * @param output The output of the step of the iteration.
+   * @param iteration The iteration that just finished, starting from 0.
+   */
+  until?: (
+    context: Readonly<C>,
+    output: O | undefined,
+    iteration: number,
+  ) => boolean;
+  /**
+   * Maximum number of iterations. If the loop has a `while` or `until` condition that is not met
+   * within this many iterations, the loop step fails with a `LoopLimitError`. Default is 10.
+   */
+  maxIterations?: number;
+  /**
+   * (Optional) Milliseconds to wait between two iterations, or a backoff to calculate them.
+   */
+  delay?: number | BackoffOptions;
+}
+
+/**
+ * The output of a loop step.
+ */
+export interface LoopResult<O = unknown> {
+  iterations: number;
+  /**
+   * The output of the step of the last iteration.
+   */
+  output?: O;
+}
+
+/**
+ * A step that executes a new step in each iteration until its exit condition is met.
+ * The iterations are siblings, so they do not count as repetitions of each other.
+ */
+export class LoopStep<C extends IContext = IContext, O = unknown> extends Step<
+  C,
+  LoopResult<O>
+> {
+  constructor(
+    readonly name: string,
+    readonly body: (iteration: number) => Step<C, O>,
+    readonly options: LoopOptions<C, O> = {},
+  ) {
+    super();
+  }
+
+  async execute(): Promise<void> {}
+}
+
+/**
+ * Creates a step that executes the step created by `body` in each iteration.
+ * The iterations are executed right after the `execute` of the loop step, before its after queue.
+ *
+ * @example
+ * ```typescript
+ *   const importPages = loop<ImportContext>(
+ *     'ImportPages',
+ *     (iteration) => importPage(iteration),
+ *     { while: (context) => context.hasMorePages, maxIterations: 100 },
+ *   );
+ * ```
+ *
+ * @param name The name of the step.
+ * @param body Returns the step to execute in the given iteration. The step is copied for each iteration.
+ * @param options (Optional) The exit conditions, the maximum number of iterations and the delay between iterations.
+ * @returns A new Step instance, whose output is the number of iterations and the output of the last one.
+ */
+export function loop<C extends IContext = IContext, O = unknown>(
+  name: string,
+  body: (iteration: number) => Step<C, O>,
+  options?: LoopOptions<C, O>,
+): Step<C, LoopResult<O>> {
+  return new LoopStep<C, O>(name, body, options);
+}
+
+/**
+ * Creates a step that executes the given step repeatedly until the condition is met,
+ * e.g. to wait until an export job is ready.
+ *
+ * @example
+ * ```typescript
+ *   const waitForExport = pollUntil<ExportContext, string>(
+ *     'WaitForExport',
+ *     checkExportStatus(),
+ *     (context, status) => status === 'ready',
+ *     { maxIterations: 30, delay: 2_000 },
+ *   );
+ * ```
+ *
+ * @param name The name of the step.
+ * @param check The step to execute in each iteration, or a function returning it. The step is copied for each iteration.
+ * @param until The loop ends when it returns true. Gets the output of the step of the iteration.
+ * @param options (Optional) The maximum number of iterations and the delay between iterations.
+ * @returns A new Step instance, whose output is the number of iterations and the output of the last one.
+ */
+export function pollUntil<C extends IContext = IContext, O = unknown>(
+  name: string,
+  check: Step<C, O> | ((iteration: number) => Step<C, O>),
+  until: (context: Readonly<C>, output: O | undefined) => boolean,
+  options?: Omit<LoopOptions<C, O>, 'while' | 'until'>,
+): Step<C, LoopResult<O>> {
+  return new LoopStep<C, O>(name, check instanceof Step ? () => check : check, {
+    ...options,
+    until,
+  });
+}
+
+export interface SubflowOptions<C extends IContext, SC extends IContext> {
+  /**
+   * Creates the context of the nested execution from the context of the parent execution.
+   */
+  mapIn: (context: Readonly<C>) => SC;
+  /**
+   * (Optional) Selects the changes to merge back into the parent context, once the nested
+   * execution has completed.
+   *
+   * @param result The final context of the nested execution.
+   * @param context The current context of the parent execution.
+   */
+  mapOut?: (result: Readonly<SC>, context: Readonly<C>) => Partial<C>;
+  /**
+   * (Optional) The error handlers of the nested execution.
+   */
+  errorHandlers?: ErrorHandlers<SC>;
+  /**
+   * (Optional) The options of the nested StepExecutor. Graphs are always enabled,
+   * so the nested graph can be embedded in the parent graph.
+   */
+  options?: Options<SC>;
+}
+
+/**
+ * A step that executes other steps in a nested StepExecutor with its own context.
+ * The result of the nested execution is the output of the step.
+ */
+export class SubflowStep<
+  C extends IContext = IContext,
+  SC extends IContext = IContext,
+> extends Step<C, ExecutionResult<SC>> {
+  constructor(
+    readonly name: string,
+    readonly steps: Step<SC> | Step<SC>[],
+    readonly subflow: SubflowOptions<C, SC>,
+  ) {
+    super();
+  }
+
+  async execute(
+    context: Readonly<C>,
+    handlers: IHandlers<C>,
+  ): Promise<ExecutionResult<SC>> {
+    const { mapIn, mapOut, errorHandlers, options } = this.subflow;
+    const executor = createExecutor(this.steps, mapIn(context), errorHandlers, {
+      ...options,
+      graph: { enable: true, ids: 'path' },
+    });
+
+    // Cancelling the parent execution cancels the nested one as well
+    const result = await executor.start({ signal: handlers.signal });
+    if (result.status === 'failed' || result.status === 'cancelled') {
+      throw new ExecutionError(result);
+    }
+
+    // A step of the nested execution stopped it, the parent execution stops as well and keeps its context
+    if (result.status === 'stopped') {
+      handlers.stopImmediate();
+      return result;
+    }
+
+    if (mapOut) {
+      handlers.contextUpdater((c) => mapOut(result.context, c));
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Creates a step that executes the given steps in a nested StepExecutor, with a context derived
+ * from the parent context. The nested graph is embedded in the parent graph as a cluster.
+ * If the nested execution fails or is cancelled, the step fails with an `ExecutionError`.
+ * If it is stopped, the parent execution is stopped as well.
+ *
+ * @example
+ * ```typescript
+ *   const importDocuments = subflow<AppContext, ImportContext>(
+ *     'ImportDocuments',
+ *     importWorkflow(),
+ *     {
+ *       mapIn: (context) => ({ documents: context.uploads }),
+ *       mapOut: (result) => ({ imported: result.imported }),
+ *       options: { concurrency: { limit: 2 } },
+ *     },
+ *   );
+ * ```
+ *
+ * @param name The name of the step.
+ * @param steps The root step or steps of the nested execution.
+ * @param options How the contexts are mapped, and the error handlers and the options of the nested StepExecutor.
+ * @returns A new Step instance, whose output is the result of the nested execution.
+ */
+export function subflow<
+  C extends IContext = IContext,
+  SC extends IContext = IContext,
+>(
   name: string,
-  step: IStep<C>,
-): Step<C> {
-  return new ConcreteStep<C>(name, step);
+  steps: Step<SC> | Step<SC>[],
+  options: SubflowOptions<C, SC>,
+): Step<C, ExecutionResult<SC>> {
+  return new SubflowStep<C, SC>(name, steps, options);
 }
@@ -1,24 +1,136 @@
-import { PriorityQueue } from './helpers';
-import { IContext, IHandlers } from './immutable-context';
+import { BackoffOptions, PriorityQueue } from './helpers';
+import type { IContext, IHandlers } from './immutable-context';
+
+export type StepStage = 'execute' | 'prepare' | 'final';
+
+/**
+ * Declares how a failing stage of a step should be retried.
+ */
+export interface RetryPolicy extends BackoffOptions {
+  /**
+   * Maximum number of attempts including the first one. Default is 1 (no retries).
+   */
+  maxAttempts?: number;
+  /**
+   * Stages the policy applies to. Default is all stages (prepare, execute, final).
+   */
+  stages?: StepStage[];
+  /**
+   * Decides whether the given error is worth another attempt. By default every error is retried.
+   *
+   * @param error - The error thrown by the stage.
+   * @param attempt - The attempt that just failed, starting from 1.
+   */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
 
 const isBeforeEmptySymbol: unique symbol = Symbol();
 const isAfterEmptySymbol: unique symbol = Symbol();
 const dequeueBeforeSymbol: unique symbol = Symbol();
 const dequeueAfterSymbol: unique symbol = Symbol();
 const stepIdSymbol: unique symbol = Symbol();
+const peekBeforeSymbol: unique symbol = Symbol();
+const peekAfterSymbol: unique symbol = Symbol();
+const cloneSymbol: unique symbol = Symbol();
+const beforePrioritySymbol: unique symbol = Symbol();
+const afterPrioritySymbol: unique symbol = Symbol();
+
+// Monotonic counter for the step ids, so ids never collide within a process
+let stepCounter = 0;
+function nextStepId(): string {
+  return (++stepCounter).toString();
+}
+
+/**
+ * Maximum time in milliseconds a stage of a step is allowed to run.
+ * A number applies to each stage, an object sets the timeout of each stage separately.
+ */
+export type StepTimeout = number | Partial<Record<StepStage, number>>;
+
+/**
+ * What the `execute` of a step needs besides its concurrency slot.
+ */
+export interface StepResources<C extends IContext = IContext> {
+  /**
+   * Units needed from the named resource pools of the StepExecutor, e.g. `{ db: 2 }`.
+   */
+  pools?: Record<string, number>;
+  /**
+   * Keys of which only `keyLimit` steps may execute at the same time, e.g. `document:42`.
+   */
+  keys?: string[] | ((context: Readonly<C>) => string[]);
+}
 
 /**
  * Represents an abstract class for defining a step in a process flow.
  * Manages the order of steps using priority queues for before and after execution.
  * @template C - The type of the shared context expected by all the steps.
+ * @template O - The type of the output returned from `execute`.
  */
-export abstract class Step<C extends IContext = IContext> {
+export abstract class Step<C extends IContext = IContext, O = unknown> {
   abstract readonly name: string;
 
+  /**
+   * (Optional) Retry policy for the stages of this step.
+   * Overrides the default `retry` policy given in the StepExecutor options.
+   */
+  readonly retry?: RetryPolicy;
+
+  /**
+   * (Optional) Timeout for the stages of this step.
+   * Overrides the default `timeout` given in the StepExecutor options.
+   */
+  readonly timeout?: StepTimeout;
+
+  /**
+   * (Optional) A user defined key for the step. It is used instead of the position of the step
+   * in its path, so graphs, logs and persisted state can be correlated across runs.
+   * It has to be unique among the siblings of the step, the execution and `plan()` throw otherwise.
+   */
+  readonly key?: string;
+
+  /**
+   * (Optional) Decides whether the step should be executed, evaluated against the current context
+   * right before `prepare`. A skipped step runs none of its stages and none of the steps in its queues.
+   *
+   * @param context The current context.
+   * @returns False to skip the step.
+   */
+  when?(context: Readonly<C>): boolean;
+
+  /**
+   * (Optional) The keys of the context the step reads. If declared, the stages of the step
+   * receive only these keys of the context.
+   */
+  readonly reads?: (keyof C)[];
+
+  /**
+   * (Optional) The keys of the context the step writes. If declared, updating any other key
+   * through the `contextUpdater` fails with an `UndeclaredWriteError`.
+   */
+  readonly writes?: (keyof C)[];
+
+  /**
+   * (Optional) The resources the `execute` of the step needs besides its concurrency slot.
+   * They are acquired all at once, when all of them are available.
+   */
+  readonly resources?: StepResources<C>;
+
+  /**
+   * (Optional) The priority of the step while waiting for a concurrency slot. Lower values are granted
+   * first, like the priorities of the queues. By default the step waits with the priority it was
+   * enqueued with, or with the priority of the step it belongs to.
+   */
+  readonly priority?: number;
+
+  /**
+   * (Optional) The rate limiter each attempt of `execute` takes a token from. True for the
+   * `rateLimit` of the StepExecutor, or the name of one of its `rateLimiters`.
+   */
+  readonly rateLimit?: boolean | string;
+
   // A unique id for the step. This id has to be unique within the execution context.
-  private readonly _id: string = Math.round(
-    Date.now() * Math.random(),
-  ).toString();
+  private readonly _id: string = nextStepId();
 
   private readonly _before = new PriorityQueue<Step<C>>();
   private readonly _after = new PriorityQueue<Step<C>>();
@@ -61,6 +173,89 @@ export abstract class Step<C extends IContext = IContext> {
     return this._after.dequeue();
   }
 
+  /**
+   * The priority of the steps the next dequeue of the before queue returns.
+   */
+  get [beforePrioritySymbol](): number | undefined {
+    return this._before.priority;
+  }
+
+  /**
+   * The priority of the steps the next dequeue of the after queue returns.
+   */
+  get [afterPrioritySymbol](): number | undefined {
+    return this._after.priority;
+  }
+
+  /**
+   * Returns the groups of steps scheduled to execute before the current step, without dequeuing them.
+   *
+   * @returns The groups of steps in the order they will be dequeued.
+   */
+  [peekBeforeSymbol](): Step<C>[][] {
+    return this._before.groups();
+  }
+
+  /**
+   * Returns the groups of steps scheduled to execute after the current step, without dequeuing them.
+   *
+   * @returns The groups of steps in the order they will be dequeued.
+   */
+  [peekAfterSymbol](): Step<C>[][] {
+    return this._after.groups();
+  }
+
+  /**
+   * Creates a copy of the step and of all the steps in its queues, recursively.
+   * The copies have the same ids and own properties, so they can be executed while this step
+   * stays untouched and can be executed again. Own properties are copied shallowly.
+   *
+   * @returns The copy of the step.
+   */
+  clone(): this {
+    return this[cloneSymbol](new Map());
+  }
+
+  /**
+   * Creates the instance a copy of the step is made from, before the own properties and the queues
+   * of the step are copied to it. ES private fields (`#field`) are not own properties, only the
+   * constructor can add them. So a step class with a constructor without parameters is constructed,
+   * which gives its private fields their initial values. Other classes using private fields have to
+   * override this method and call their constructor.
+   *
+   * @returns A new instance of the class of the step.
+   */
+  protected createCopy(): this {
+    const constructor = this.constructor as new () => this;
+    return constructor.length === 0
+      ? new constructor()
+      : Object.create(Object.getPrototypeOf(this));
+  }
+
+  /**
+   * Clones the step, reusing the copies already made within the same clone operation,
+   * so a step enqueued in multiple queues is still a single step in the copy.
+   *
+   * @param clones - The copies made so far by their original steps.
+   * @param newIds - (Optional) Gives the copies new ids, e.g. for the iterations of a loop.
+   * @returns The copy of the step.
+   */
+  [cloneSymbol](clones: Map<Step<C>, Step<C>>, newIds = false): this {
+    const existing = clones.get(this);
+    if (existing) {
+      return existing as this;
+    }
+
+    const copy = this.createCopy();
+    clones.set(this, copy);
+
+    return Object.assign(copy, this, {
+      _id: newIds ? nextStepId() : this._id,
+      _before: this._before.map((s) => s[cloneSymbol](clones, newIds)),
+      _after: this._after.map((s) => s[cloneSymbol](clones, newIds)),
+    });
+  }
+
   /**
    * Enqueues a step or an array of steps before the current step with a specified priority.
    *
@@ -115,12 +310,13 @@ export abstract class Step<C extends IContext = IContext> {
    * the same StepExecutor will share this context. You can use it to share data between steps.
    * @param handlers The `handlers` contains some useful functions that you can use to handle the execution
    * for example `handlers.stopImmediate()` will stop all the executions immediately.
-   * @returns A promise that resolves to void, an array of steps, or a single step.
+   * @returns A promise that resolves to void, an array of steps, a single step, or the output of the step.
+   * The output can be read by the other steps with `handlers.outputOf(step)`.
    */
   abstract execute(
     context: Readonly<C>,
     handlers: IHandlers<C>,
-  ): Promise<void | Step<C>[] | Step<C>>;
+  ): Promise<void | Step<C>[] | Step<C> | O>;
 
   /**
    * Will perform the rollback operation for the step, if an error occurs during the execution.
@@ -175,6 +371,66 @@ export function dequeueAfter<C extends IContext>(step: Step<C>): Step<C>[] {
   return step[dequeueAfterSymbol]();
 }
 
+/**
+ * Returns the priority the steps the next `dequeueBefore` returns were enqueued with.
+ *
+ * @param step - A step instance.
+ * @returns The priority, or undefined if the before queue is empty.
+ */
+export function beforePriority<C extends IContext>(
+  step: Step<C>,
+): number | undefined {
+  return step[beforePrioritySymbol];
+}
+
+/**
+ * Returns the priority the steps the next `dequeueAfter` returns were enqueued with.
+ *
+ * @param step - A step instance.
+ * @returns The priority, or undefined if the after queue is empty.
+ */
+export function afterPriority<C extends IContext>(
+  step: Step<C>,
+): number | undefined {
+  return step[afterPrioritySymbol];
+}
+
+/**
+ * Clones the provided steps for a single execution. Steps shared between the trees
+ * of the provided steps are cloned only once.
+ *
+ * @param steps - The steps to clone.
+ * @param newIds - (Optional) Gives the copies new ids, so they are distinct from any other copy.
+ * @returns The copies of the steps in the same order.
+ */
+export function cloneSteps<C extends IContext>(
+  steps: Step<C>[],
+  newIds = false,
+): Step<C>[] {
+  const clones = new Map<Step<C>, Step<C>>();
+  return steps.map((s) => s[cloneSymbol](clones, newIds));
+}
+
+/**
+ * Returns the groups of steps in the before queue of the provided step, without dequeuing them.
+ *
+ * @param step - A step instance.
+ * @returns The groups of steps in the order they will be dequeued.
+ */
+export function peekBefore<C extends IContext>(step: Step<C>): Step<C>[][] {
+  return step[peekBeforeSymbol]();
+}
+
+/**
+ * Returns the groups of steps in the after queue of the provided step, without dequeuing them.
+ *
+ * @param step - A step instance.
+ * @returns The groups of steps in the order they will be dequeued.
+ */
+export function peekAfter<C extends IContext>(step: Step<C>): Step<C>[][] {
+  return step[peekAfterSymbol]();
+}
+
 /**
  * Checks if there are steps to in the beforeQueue of the provided step.
  *
@@ -0,0 +1,68 @@
+import {
+  fromParse,
+  fromSafeParse,
+  fromValidate,
+  fromValidateSync,
+} from './validation';
+
+type Context = { count: number };
+
+const invalid = new Error('count must be a number');
+const check = (value: unknown): Context => {
+  if (typeof (value as Context).count !== 'number') {
+    throw invalid;
+  }
+
+  return { count: (value as Context).count };
+};
+
+describe('validation adapters', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should adapt a schema with a throwing parse', () => {
+    const validate = fromParse({ parse: check });
+
+    expect(validate({ count: 1 })).toEqual({ count: 1 });
+    expect(() => validate({} as Context)).toThrow(invalid);
+  });
+
+  it('should adapt a schema with a safeParse', () => {
+    const validate = fromSafeParse<Context>({
+      safeParse: (value) => {
+        try {
+          return { success: true, data: check(value) };
+        } catch (error) {
+          return { success: false, error };
+        }
+      },
+    });
+
+    expect(validate({ count: 1 })).toEqual({ count: 1 });
+    expect(() => validate({} as Context)).toThrow(invalid);
+  });
+
+  it('should adapt a schema whose validate returns the error', () => {
+    const validate = fromValidate<Context>({
+      validate: (value) => {
+        try {
+          return { value: check(value) };
+        } catch (error) {
+          return { value: value as Context, error };
+        }
+      },
+    });
+
+    expect(validate({ count: 1 })).toEqual({ count: 1 });
+    expect(() => validate({} as Context)).toThrow(invalid);
+  });
+
+  it('should adapt a schema with a throwing validateSync', () => {
+    const validate = fromValidateSync({ validateSync: check });
+
+    expect(validate({ count: 1 })).toEqual({ count: 1 });
+    expect(() => validate({} as Context)).toThrow(invalid);
+  });
+});
@@ -0,0 +1,72 @@
+import type { IContext } from './immutable-context';
+
+/**
+ * Checks a context and returns the context to use, e.g. with the defaults of a schema applied.
+ * Throws if the context is not valid.
+ */
+export type ContextValidator<C extends IContext> = (context: Readonly<C>) => C;
+
+/**
+ * Creates a validator from a schema with a throwing `parse` method, e.g. a Zod schema.
+ *
+ * @param schema - The schema.
+ * @returns The context validator.
+ */
+export function fromParse<C extends IContext>(schema: {
+  parse(value: unknown): C;
+}): ContextValidator<C> {
+  return (context) => schema.parse(context);
+}
+
+/**
+ * Creates a validator from a schema with a non-throwing `safeParse` method, e.g. a Zod schema.
+ *
+ * @param schema - The schema.
+ * @returns The context validator.
+ */
+export function fromSafeParse<C extends IContext>(schema: {
+  safeParse(
+    value: unknown,
+  ): { success: true; data: C } | { success: false; error: unknown };
+}): ContextValidator<C> {
+  return (context) => {
+    const result = schema.safeParse(context);
+    if (!result.success) {
+      throw result.error;
+    }
+
+    return result.data;
+  };
+}
+
+/**
+ * Creates a validator from a schema whose `validate` method returns the value and the error,
+ * e.g. a Joi schema.
+ *
+ * @param schema - The schema.
+ * @returns The context validator.
+ */
+export function fromValidate<C extends IContext>(schema: {
+  validate(value: unknown): { value: C; error?: unknown };
+}): ContextValidator<C> {
+  return (context) => {
+    const { value, error } = schema.validate(context);
+    if (error) {
+      throw error;
+    }
+
+    return value;
+  };
+}
+
+/**
+ * Creates a validator from a schema with a throwing `validateSync` method, e.g. a Yup schema.
+ *
+ * @param schema - The schema.
+ * @returns The context validator.
+ */
+export function fromValidateSync<C extends IContext>(schema: {
+  validateSync(value: unknown): C;
+}): ContextValidator<C> {
+  return (context) => schema.validateSync(context);
+}